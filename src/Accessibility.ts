@@ -0,0 +1,149 @@
+import { UPDATE_PRIORITY, type Application } from 'pixi.js';
+import { FocusManager, type Focusable } from './FocusManager';
+
+/** Readable text a scene exposes to screen readers. */
+export interface AccessibleContent {
+  /** Scene title, exposed as the page heading. */
+  heading?: string;
+  /** Other text on screen, in reading order. */
+  text?: string[];
+  /** Announced every time it changes, e.g. the current dialogue line. */
+  live?: string;
+}
+
+/** Keeps the mirror in the accessibility tree while hiding it from sighted users. */
+const VISUALLY_HIDDEN = 'position:absolute;width:1px;height:1px;margin:-1px;padding:0;border:0;'
+  + 'overflow:hidden;clip:rect(0 0 0 0);clip-path:inset(50%);white-space:nowrap;';
+
+/**
+ * Mirrors the canvas UI into hidden DOM so screen readers can use it: the heading and text
+ * of the active focus scope (the input scene, or a dialog above it; see `accessibleContent`),
+ * a live region for changing text, and a native `<button>` for each element in its focus
+ * order. DOM buttons activate their canvas counterparts and share focus with FocusManager.
+ * Synced after every render, touching the DOM only when something changed.
+ */
+export class Accessibility {
+  private static _app?: Application;
+  private static _root: HTMLElement | null = null;
+  private static _heading: HTMLElement;
+  private static _text: HTMLElement;
+  private static _controls: HTMLElement;
+  private static _live: HTMLElement;
+  private static _announcer: HTMLElement | null = null;
+  private static _buttons: Map<Focusable, HTMLButtonElement> = new Map();
+  private static _unsubscribeFocus?: () => void;
+  private static _removeKeyTarget?: () => void;
+
+  public static init(app: Application): void {
+    this._app = app;
+
+    const root = document.createElement('div');
+    root.style.cssText = VISUALLY_HIDDEN;
+
+    this._heading = document.createElement('h1');
+    this._text = document.createElement('div');
+    this._controls = document.createElement('div');
+    this._controls.setAttribute('role', 'group');
+    this._controls.setAttribute('aria-label', 'Controls');
+    this._live = document.createElement('div');
+    this._live.setAttribute('role', 'status');
+    this._live.setAttribute('aria-live', 'polite');
+    this._live.setAttribute('aria-atomic', 'true');
+
+    this._announcer = document.createElement('div');
+    this._announcer.setAttribute('aria-live', 'polite');
+
+    root.append(this._heading, this._text, this._controls, this._live, this._announcer);
+    document.body.appendChild(root);
+    this._root = root;
+
+    app.ticker.add(this.sync, this, UPDATE_PRIORITY.UTILITY);
+    this._unsubscribeFocus = FocusManager.subscribe(this.onFocusChange);
+    // Arrow keys and Escape still navigate while a mirrored button has DOM focus
+    this._removeKeyTarget = FocusManager.addKeyTarget(root);
+  }
+
+  public static destroy(): void {
+    this._app?.ticker.remove(this.sync, this);
+    this._unsubscribeFocus?.();
+    this._removeKeyTarget?.();
+    this._buttons.clear();
+    this._root?.remove();
+    this._root = null;
+    this._announcer = null;
+  }
+
+  /** Reads a one-off message (e.g. a toast) without changing the mirrored scene text. */
+  public static announce(message: string): void {
+    if (!this._announcer) return;
+    const line = document.createElement('p');
+    line.textContent = message;
+    this._announcer.appendChild(line);
+    // Announced on insertion; drop old lines so the region does not grow
+    while (this._announcer.childElementCount > 5) {
+      this._announcer.firstElementChild?.remove();
+    }
+  }
+
+  private static sync(): void {
+    const content = FocusManager.scope?.accessibleContent?.() ?? {};
+
+    setText(this._heading, content.heading ?? '');
+    const paragraphs = content.text ?? [];
+    if (this._text.childElementCount !== paragraphs.length
+      || paragraphs.some((text, i) => this._text.children[i].textContent !== text)) {
+      this._text.replaceChildren(...paragraphs.map(text => {
+        const p = document.createElement('p');
+        p.textContent = text;
+        return p;
+      }));
+    }
+    setText(this._live, content.live ?? '');
+
+    this.syncButtons(FocusManager.focusables());
+  }
+
+  /** Reuses each element's button, so DOM focus survives the sync. */
+  private static syncButtons(elements: Focusable[]): void {
+    for (const [target, button] of this._buttons) {
+      if (!elements.includes(target)) {
+        button.remove();
+        this._buttons.delete(target);
+      }
+    }
+
+    elements.forEach((target, i) => {
+      let button = this._buttons.get(target);
+      if (!button) {
+        button = this.createButton(target);
+        this._buttons.set(target, button);
+      }
+      setText(button, target.accessibleLabel);
+      if (this._controls.children[i] !== button) {
+        this._controls.insertBefore(button, this._controls.children[i] ?? null);
+      }
+    });
+  }
+
+  private static createButton(target: Focusable): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.addEventListener('click', () => target.activate());
+    button.addEventListener('focus', () => FocusManager.focus(target));
+    return button;
+  }
+
+  /** Moves DOM focus along with canvas focus, so screen readers announce the focused button. */
+  private static onFocusChange = (focused: Focusable | null): void => {
+    const button = focused ? this._buttons.get(focused) : undefined;
+    if (button && document.activeElement !== button) {
+      button.focus({ preventScroll: true });
+    } else if (!button && this._root?.contains(document.activeElement)) {
+      (document.activeElement as HTMLElement).blur();
+    }
+  };
+}
+
+function setText(element: HTMLElement, text: string): void {
+  if (element.textContent !== text) element.textContent = text;
+}
@@ -0,0 +1,223 @@
+import { Assets, Spritesheet, Texture, TextureSource, type ResolvedAsset } from 'pixi.js';
+import { config } from './config';
+
+/** Thrown by `AssetLifecycle.load` when one or more bundle assets could not be loaded. */
+export class BundleLoadError extends Error {
+  /** Bundles that were being loaded. */
+  readonly bundleIds: string[];
+  /** Aliases of the assets that failed; empty if they could not be determined. */
+  readonly failedAliases: string[];
+
+  constructor(bundleIds: string[], failedAliases: string[], cause: unknown) {
+    super(`Failed to load bundle(s) ${bundleIds.join(', ')}`, { cause });
+    this.name = 'BundleLoadError';
+    this.bundleIds = bundleIds;
+    this.failedAliases = failedAliases;
+  }
+}
+
+interface BundleRecord {
+  /** Owners (usually scenes) currently using the bundle. */
+  owners: Set<object>;
+  /** Estimated GPU memory of the bundle's textures in bytes. */
+  bytes: number;
+  /** Timestamp of the last retain/release, used for LRU eviction. */
+  lastUsed: number;
+}
+
+interface CachedAlias {
+  alias: string;
+  texture: Texture;
+  /** Whether the texture is destroyed on release (false for shared placeholders). */
+  owned: boolean;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Tracks which owners use which asset bundles and unloads bundles nobody needs anymore.
+ * Idle bundles stay resident in an LRU cache capped by `config.assets.idleCacheMB`;
+ * bundles listed in `config.assets.keepWarm` are never unloaded.
+ */
+class AssetLifecycleClass {
+  private _bundles: Map<string, BundleRecord> = new Map();
+  private _cached: Map<object, CachedAlias[]> = new Map();
+  private _keepWarm: Set<string> = new Set(config.assets.keepWarm);
+  /** Unloads still in flight, so a load of the same bundle waits for them to finish. */
+  private _unloading: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Returns true if the bundle has been loaded and not unloaded since.
+   * @param bundleId - Bundle name from the manifest
+   */
+  isLoaded(bundleId: string): boolean {
+    return this._bundles.has(bundleId);
+  }
+
+  /**
+   * Loads bundles that are not resident yet. Does not retain them; call `retain` once the owner exists.
+   * Freshly loaded bundles are only considered for eviction on the next `release`.
+   * @param bundleIds - Bundle names from the manifest
+   * @param onProgress - Aggregated progress (0-1) across all bundles being loaded
+   * @throws {BundleLoadError} Listing the aliases that failed
+   */
+  async load(bundleIds: string[], onProgress?: (progress: number) => void): Promise<void> {
+    // Loading while Pixi still tears a bundle down would hand back assets that are about to be destroyed
+    await Promise.all(bundleIds.map(id => this._unloading.get(id)));
+
+    const pending = bundleIds.filter(id => !this.isLoaded(id));
+    if (pending.length === 0) {
+      onProgress?.(1);
+      return;
+    }
+
+    let loaded: Record<string, Record<string, unknown>>;
+    try {
+      loaded = await Assets.loadBundle(pending, onProgress);
+    } catch (e) {
+      throw new BundleLoadError(pending, await this.findFailedAliases(pending), e);
+    }
+
+    const now = Date.now();
+    for (const id of pending) {
+      this._bundles.set(id, {
+        owners: new Set(),
+        bytes: this.estimateBytes(loaded[id] ?? {}),
+        lastUsed: now,
+      });
+    }
+  }
+
+  /**
+   * Marks bundles as used by an owner. Bundles must already be loaded.
+   * @param owner - The object using the bundles (usually a scene)
+   * @param bundleIds - Bundle names from the manifest
+   */
+  retain(owner: object, bundleIds: string[]): void {
+    const now = Date.now();
+    for (const id of bundleIds) {
+      const record = this._bundles.get(id);
+      if (!record) continue;
+      record.owners.add(owner);
+      record.lastUsed = now;
+    }
+  }
+
+  /**
+   * Drops every bundle reference and cached alias held by an owner, then evicts
+   * idle bundles that no longer fit the cache.
+   * @param owner - The object passed to `retain`/`cacheTexture`
+   */
+  release(owner: object): void {
+    const now = Date.now();
+    for (const record of this._bundles.values()) {
+      if (record.owners.delete(owner)) {
+        record.lastUsed = now;
+      }
+    }
+
+    for (const entry of this._cached.get(owner) ?? []) {
+      const current = Assets.cache.has(entry.alias) ? Assets.cache.get(entry.alias) : undefined;
+      if (current === entry.texture) {
+        Assets.cache.remove(entry.alias);
+      }
+      if (entry.owned) {
+        try { entry.texture.destroy(true); } catch (e) {}
+      }
+    }
+    this._cached.delete(owner);
+
+    this.trim();
+  }
+
+  /**
+   * Stores a texture created at runtime under an alias in `Assets.cache`, scoped to an owner.
+   * It is removed from the cache (and destroyed, if owned) when the owner is released.
+   * @param owner - The object the alias belongs to
+   * @param alias - Cache key
+   * @param texture - Texture to cache
+   * @param owned - False for shared textures (e.g. placeholders) that must outlive the owner
+   */
+  cacheTexture(owner: object, alias: string, texture: Texture, owned: boolean = true): void {
+    Assets.cache.set(alias, texture);
+    const entries = this._cached.get(owner) ?? [];
+    entries.push({ alias, texture, owned });
+    this._cached.set(owner, entries);
+  }
+
+  /** Estimated memory of all resident bundles in MB. */
+  get residentMB(): number {
+    let bytes = 0;
+    for (const record of this._bundles.values()) {
+      bytes += record.bytes;
+    }
+    return bytes / BYTES_PER_MB;
+  }
+
+  /** Unloads least recently used idle bundles until resident memory fits the idle cache cap. */
+  private trim(): void {
+    const capBytes = config.assets.idleCacheMB * BYTES_PER_MB;
+    let total = this.residentMB * BYTES_PER_MB;
+
+    const idle = [...this._bundles.entries()]
+      .filter(([id, record]) => record.owners.size === 0 && !this._keepWarm.has(id))
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+    for (const [id, record] of idle) {
+      if (total <= capBytes) break;
+      total -= record.bytes;
+      this.unload(id);
+    }
+  }
+
+  private unload(bundleId: string): void {
+    // Forget the bundle first so a load issued meanwhile fetches it again
+    this._bundles.delete(bundleId);
+    const unloading = Assets.unloadBundle(bundleId)
+      .catch((e) => {
+        console.error('Failed to unload bundle', bundleId, e);
+      })
+      .finally(() => {
+        if (this._unloading.get(bundleId) === unloading) this._unloading.delete(bundleId);
+      });
+    this._unloading.set(bundleId, unloading);
+  }
+
+  /**
+   * Re-requests each asset of the bundles individually to see which ones fail.
+   * Assets that did load are served from the loader's promise cache, so only failures hit the network.
+   */
+  private async findFailedAliases(bundleIds: string[]): Promise<string[]> {
+    const resolved = Assets.resolver.resolveBundle(bundleIds) as Record<string, Record<string, ResolvedAsset>>;
+    const checks: Promise<string | null>[] = [];
+
+    for (const assets of Object.values(resolved)) {
+      for (const [alias, asset] of Object.entries(assets)) {
+        checks.push(Assets.loader.load(asset).then(() => null, () => alias));
+      }
+    }
+
+    const results = await Promise.all(checks);
+    return results.filter((alias): alias is string => alias !== null);
+  }
+
+  /** Rough GPU footprint: 4 bytes per pixel for each distinct texture source in the bundle. */
+  private estimateBytes(assets: Record<string, unknown>): number {
+    const sources = new Set<TextureSource>();
+    for (const asset of Object.values(assets)) {
+      if (asset instanceof Texture) {
+        sources.add(asset.source);
+      } else if (asset instanceof Spritesheet) {
+        sources.add(asset.textureSource);
+      }
+    }
+
+    let bytes = 0;
+    for (const source of sources) {
+      bytes += source.pixelWidth * source.pixelHeight * 4;
+    }
+    return bytes;
+  }
+}
+
+export const AssetLifecycle = new AssetLifecycleClass();
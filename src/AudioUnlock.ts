@@ -0,0 +1,85 @@
+import { Howler } from 'howler';
+
+export type AudioLockListener = (locked: boolean) => void;
+
+const GESTURE_EVENTS = ['pointerdown', 'keydown', 'touchend'] as const;
+
+/**
+ * Tracks the browser autoplay policy: audio stays locked until the first user gesture
+ * lets the Web Audio context (`Howler.ctx`) run. Once unlocked it stays unlocked, even
+ * when Howler suspends an idle context to save power.
+ */
+class AudioUnlockClass {
+  private _locked = true;
+  private _listeners: Set<AudioLockListener> = new Set();
+
+  /** True until audio may play. Sounds played meanwhile are queued by SoundManager. */
+  get locked(): boolean {
+    return this._locked;
+  }
+
+  /** Reads the current context state and waits for a gesture if audio is still locked. Call once on boot. */
+  init(): void {
+    const ctx = Howler.ctx;
+    if (ctx?.state === 'running' || navigator.userActivation?.hasBeenActive) {
+      this.setLocked(false);
+      return;
+    }
+
+    ctx?.addEventListener('statechange', this.onStateChange);
+    for (const type of GESTURE_EVENTS) {
+      window.addEventListener(type, this.unlock);
+    }
+  }
+
+  /**
+   * Tries to unlock audio. Must run inside a user gesture handler to succeed;
+   * the window's first gesture calls it automatically.
+   */
+  unlock = (): void => {
+    if (!this._locked) return;
+
+    const ctx = Howler.ctx;
+    if (!ctx) {
+      // HTML5 Audio: any gesture is enough
+      this.setLocked(false);
+      return;
+    }
+    ctx.resume().then(this.onStateChange, () => {
+      // Still blocked; the next gesture tries again
+    });
+  };
+
+  /**
+   * Calls the listener whenever the locked state changes.
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: AudioLockListener): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  private onStateChange = (): void => {
+    if (Howler.ctx?.state === 'running') {
+      this.setLocked(false);
+    }
+  };
+
+  private setLocked(locked: boolean): void {
+    if (this._locked === locked) return;
+    this._locked = locked;
+
+    if (!locked) {
+      Howler.ctx?.removeEventListener('statechange', this.onStateChange);
+      for (const type of GESTURE_EVENTS) {
+        window.removeEventListener(type, this.unlock);
+      }
+    }
+
+    for (const listener of this._listeners) {
+      listener(locked);
+    }
+  }
+}
+
+export const AudioUnlock = new AudioUnlockClass();
@@ -0,0 +1,195 @@
+import { config, type ConfigSection } from './config';
+import { configSchema, type ConfigField } from './configSchema';
+
+export type ConfigValue = number | boolean | string;
+
+export interface ConfigChange {
+  section: ConfigSection;
+  key: string;
+  value: ConfigValue;
+}
+
+export type ConfigListener = (change: ConfigChange) => void;
+
+const STORAGE_KEY = 'pixi-examples.config';
+
+/**
+ * Runtime layer over `config`: defaults, then values saved in localStorage, then URL params.
+ * Only values listed in `configSchema` can be overridden, always within their range.
+ * Values are written into the `config` object itself, so code reading `config.section.key`
+ * at use time picks changes up live; listeners are notified of every change.
+ */
+class ConfigStoreClass {
+  /** Default of every primitive config value, keyed by `section.key`. */
+  private _defaults: Map<string, ConfigValue> = new Map();
+  /** Overrides saved to localStorage, keyed by `section.key`. */
+  private _stored: Record<string, ConfigValue> = {};
+  private _listeners: Set<ConfigListener> = new Set();
+
+  constructor() {
+    for (const [section, values] of Object.entries(config)) {
+      for (const [key, value] of Object.entries(values)) {
+        if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+          this._defaults.set(`${section}.${key}`, value);
+        }
+      }
+    }
+  }
+
+  /** Applies saved overrides, then `section.key` URL params. Call once on boot. */
+  init(): void {
+    this._stored = this.readStorage();
+    for (const [path, value] of Object.entries(this._stored)) {
+      const [section, key] = path.split('.', 2) as [ConfigSection, string];
+      if (!this.set(section, key, value, false)) {
+        delete this._stored[path];
+      }
+    }
+    this.applyUrlOverrides();
+  }
+
+  /**
+   * Returns the current value, or undefined for unknown keys.
+   * @param section - Config section name
+   * @param key - Key within the section
+   */
+  get(section: ConfigSection, key: string): ConfigValue | undefined {
+    if (!this._defaults.has(`${section}.${key}`)) return undefined;
+    return this.sectionValues(section)[key] as ConfigValue;
+  }
+
+  /**
+   * Sets a value live. It is converted to the field's type, and numbers are clamped to
+   * the field's range and snapped to its step.
+   * @param section - Config section name
+   * @param key - Key within the section
+   * @param value - New value (strings are parsed, e.g. from URL params)
+   * @param persist - Save the override to localStorage
+   * @returns False if the key is not in `configSchema` or the value could not be converted
+   */
+  set(section: ConfigSection, key: string, value: unknown, persist: boolean = true): boolean {
+    const coerced = this.coerce(section, key, value);
+    if (coerced === undefined) return false;
+
+    if (persist) {
+      this._stored[`${section}.${key}`] = coerced;
+      this.writeStorage();
+    }
+
+    const values = this.sectionValues(section);
+    if (values[key] === coerced) return true;
+
+    values[key] = coerced;
+    for (const listener of this._listeners) {
+      listener({ section, key, value: coerced });
+    }
+    return true;
+  }
+
+  /**
+   * Restores defaults and forgets saved overrides.
+   * @param section - Only reset this section; omit to reset everything
+   */
+  reset(section?: ConfigSection): void {
+    for (const [path, value] of this._defaults) {
+      const [s, key] = path.split('.', 2) as [ConfigSection, string];
+      if (section && s !== section) continue;
+      delete this._stored[path];
+      this.set(s, key, value, false);
+    }
+    this.writeStorage();
+  }
+
+  /**
+   * Calls the listener whenever a value changes.
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: ConfigListener): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  /** Schema field for a value, if it is tunable. */
+  field(section: ConfigSection, key: string): ConfigField | undefined {
+    return configSchema[section]?.[key];
+  }
+
+  /**
+   * Applies query params (from `location.search` and the hash) over config values. Not persisted.
+   * `section.key=value` targets any section; a bare `key=value` targets `defaultSection`.
+   * @param defaultSection - Section for bare keys (e.g. the opened scene's)
+   */
+  applyUrlOverrides(defaultSection?: ConfigSection): void {
+    const params = new URLSearchParams(location.search);
+    const hashQuery = location.hash.split('?')[1];
+    new URLSearchParams(hashQuery).forEach((value, key) => params.set(key, value));
+
+    params.forEach((raw, name) => {
+      const [section, key] = name.includes('.')
+        ? name.split('.', 2) as [string, string]
+        : [defaultSection, name];
+      if (!section || !(section in config)) return;
+      this.set(section as ConfigSection, key, raw, false);
+    });
+  }
+
+  /** The live values of a section; `config` is deliberately mutable so changes apply in place. */
+  private sectionValues(section: ConfigSection): Record<string, unknown> {
+    return config[section];
+  }
+
+  /**
+   * Converts a value to its schema field's type and applies the field's range and step.
+   * Values without a field (e.g. `simulation`, `display`) are never overridden.
+   */
+  private coerce(section: ConfigSection, key: string, value: unknown): ConfigValue | undefined {
+    const field = this.field(section, key);
+    if (!field || !this._defaults.has(`${section}.${key}`)) return undefined;
+
+    if (field.type === 'boolean') {
+      return typeof value === 'boolean' ? value : value === 'true' || value === '1';
+    }
+
+    const n = typeof value === 'number' ? value : Number(value);
+    if (!Number.isFinite(n)) return undefined;
+
+    const clamped = Math.min(field.max, Math.max(field.min, n));
+    const snapped = Math.round((clamped - field.min) / field.step) * field.step + field.min;
+    // Drop floating point noise from the snap (e.g. 0.30000000000000004)
+    return Math.min(field.max, parseFloat(snapped.toFixed(6)));
+  }
+
+  /** Saved overrides; anything that is not a `section.key` -> primitive map (e.g. hand-edited storage) is ignored. */
+  private readStorage(): Record<string, ConfigValue> {
+    let parsed: unknown;
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      parsed = raw ? JSON.parse(raw) : {};
+    } catch (e) {
+      return {};
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return {};
+
+    const stored: Record<string, ConfigValue> = {};
+    for (const [path, value] of Object.entries(parsed)) {
+      if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+        stored[path] = value;
+      }
+    }
+    return stored;
+  }
+
+  private writeStorage(): void {
+    try {
+      if (Object.keys(this._stored).length === 0) {
+        localStorage.removeItem(STORAGE_KEY);
+      } else {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this._stored));
+      }
+    } catch (e) {
+      // Storage unavailable (private mode, quota): overrides just won't survive a reload
+    }
+  }
+}
+
+export const ConfigStore = new ConfigStoreClass();
@@ -0,0 +1,100 @@
+import { Container, type Application } from 'pixi.js';
+import { FocusManager } from './FocusManager';
+import { Dialog, type DialogOptions } from './ui/Dialog';
+
+/** A dialog waiting to open (or open), with the promise callback it resolves. */
+interface PendingDialog {
+  options: DialogOptions<string>;
+  resolve: (choice: string) => void;
+}
+
+/**
+ * Modal dialogs above every scene. While one is open it takes keyboard/gamepad navigation
+ * and blocks pointer input below; dialogs requested meanwhile open one after another.
+ *
+ * @example
+ * const choice = await Dialogs.show({
+ *   title: 'Leave scene?',
+ *   body: 'Progress will be lost.',
+ *   buttons: [{ id: 'stay', label: 'Stay' }, { id: 'leave', label: 'Leave' }],
+ *   cancel: 'stay',
+ * });
+ */
+export class Dialogs {
+  private static _layer: Container | null = null;
+  private static _queue: PendingDialog[] = [];
+  /** The dialog on screen. */
+  private static _open: PendingDialog | null = null;
+
+  public static init(app: Application): void {
+    this._layer = new Container();
+    this._layer.zIndex = 5000;
+    app.stage.sortableChildren = true;
+    app.stage.addChild(this._layer);
+  }
+
+  public static destroy(): void {
+    // Settle every caller still waiting, as if each dialog had been dismissed
+    const pending = this._open ? [this._open, ...this._queue] : this._queue;
+    this._queue = [];
+    this._open = null;
+    for (const { options, resolve } of pending) {
+      resolve(dismissChoice(options));
+    }
+    this._layer?.destroy({ children: true });
+    this._layer = null;
+  }
+
+  /** True while a dialog is on screen. */
+  public static get isOpen(): boolean {
+    return this._open !== null;
+  }
+
+  /**
+   * Opens a dialog, or queues it behind the one on screen.
+   * @returns The id of the chosen button ('ok' for the default button)
+   */
+  public static show<T extends string = 'ok'>(options: DialogOptions<T>): Promise<T> {
+    return new Promise<T>(resolve => {
+      this._queue.push({ options, resolve: resolve as (choice: string) => void });
+      if (!this._open) this.openNext();
+    });
+  }
+
+  /** Asks a yes/no question. Escape / gamepad B answers no. */
+  public static async confirm(title: string, body: string, confirmLabel = 'OK', cancelLabel = 'Cancel'): Promise<boolean> {
+    const choice = await this.show({
+      title,
+      body,
+      buttons: [{ id: 'cancel', label: cancelLabel }, { id: 'confirm', label: confirmLabel, color: 0x1f6f43, hoverColor: 0x2a8f58 }],
+      cancel: 'cancel',
+    });
+    return choice === 'confirm';
+  }
+
+  private static openNext(): void {
+    const next = this._queue.shift();
+    if (!next || !this._layer) return;
+
+    // Keyboard/gamepad users get the first button focused; pointer users see no focus ring
+    const navigating = FocusManager.focused !== null;
+
+    let removeScope = (): void => {};
+    const dialog = new Dialog(next.options, (choice) => {
+      removeScope();
+      this._open = null;
+      next.resolve(choice);
+      this.openNext();
+    });
+    this._open = next;
+    this._layer.addChild(dialog);
+
+    removeScope = FocusManager.pushScope(dialog);
+    if (navigating) FocusManager.focus(dialog.focusOrder()[0] ?? null);
+  }
+}
+
+/** The choice reported when a dialog closes without a click: its cancel id, else its first button. */
+function dismissChoice(options: DialogOptions<string>): string {
+  return options.cancel ?? options.buttons?.[0]?.id ?? 'ok';
+}
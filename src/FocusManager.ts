@@ -0,0 +1,312 @@
+import { Container, Point, type Application } from 'pixi.js';
+import { SceneManager } from './SceneManager';
+import type { AccessibleContent } from './Accessibility';
+
+/** A UI element that can take keyboard/gamepad focus. */
+export interface Focusable extends Container {
+  /** Shows or hides the element's focus ring. */
+  setFocused(focused: boolean): void;
+  /** Performs the element's action, as a click would. */
+  activate(): void;
+  /** Name read by screen readers. */
+  readonly accessibleLabel: string;
+  /** Disabled elements are skipped by navigation. */
+  readonly disabled?: boolean;
+  /** Steps a value (e.g. a slider) down (-1) or up (1); left/right then adjust it instead of moving focus. */
+  adjust?(direction: -1 | 1): void;
+}
+
+export type FocusListener = (focused: Focusable | null) => void;
+
+/**
+ * Owner of navigation: the scene receiving input, or something opened above it (e.g. a
+ * modal dialog) with `pushScope`. Scenes implement the same methods.
+ */
+export interface FocusScope {
+  /** Focusable elements in navigation order. */
+  focusOrder?(): Focusable[];
+  /** Text mirrored for screen readers while the scope is active. */
+  accessibleContent?(): AccessibleContent;
+  /** Handles Escape / gamepad B. Pushed scopes without it ignore back. */
+  back?(): void;
+}
+
+export interface FocusManagerOptions {
+  /** Called for Escape / gamepad B. */
+  onBack?: () => void;
+}
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+type Command = Direction | 'next' | 'previous' | 'activate' | 'back';
+
+/** Standard gamepad mapping: button index -> command. */
+const GAMEPAD_BUTTONS: Record<number, Command> = {
+  0: 'activate', // A
+  1: 'back', // B
+  12: 'up',
+  13: 'down',
+  14: 'left',
+  15: 'right',
+};
+
+const STICK_THRESHOLD = 0.5;
+/** Hold time before a held D-pad/stick direction starts repeating, and the repeat interval (ms). */
+const REPEAT_DELAY = 400;
+const REPEAT_INTERVAL = 150;
+
+/**
+ * Keyboard and gamepad navigation. The scene receiving input lists its focusable elements
+ * in order via `IScene.focusOrder`; Tab/Shift+Tab walk that order, arrow keys and the D-pad
+ * move to the nearest element in that direction, Enter/Space/A activate and Escape/B go back.
+ * The focus ring only shows after keyboard or gamepad use and hides again on pointer input.
+ * Keys are only taken while the page itself, the canvas or a registered key target (see
+ * `addKeyTarget`) has DOM focus, so text fields and browser shortcuts keep working.
+ */
+export class FocusManager {
+  private static _app?: Application;
+  private static _focused: Focusable | null = null;
+  private static _onBack?: () => void;
+  /** Command held on the gamepad, with the time it next repeats. */
+  private static _held: { command: Command; repeatAt: number } | null = null;
+  private static _listeners: Set<FocusListener> = new Set();
+  /** Pushed scopes, topmost last, with the focus to restore when each is removed. */
+  private static _scopes: { scope: FocusScope; restore: Focusable | null }[] = [];
+  /** DOM elements besides the canvas whose key presses drive navigation. */
+  private static _keyTargets: Set<HTMLElement> = new Set();
+
+  public static init(app: Application, options: FocusManagerOptions = {}): void {
+    this._app = app;
+    this._onBack = options.onBack;
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('pointerdown', this.onPointerDown);
+    app.ticker.add(this.pollGamepads, this);
+  }
+
+  public static destroy(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('pointerdown', this.onPointerDown);
+    this._app?.ticker.remove(this.pollGamepads, this);
+    this._scopes = [];
+    this.blur();
+  }
+
+  /** The focused element, if any. */
+  public static get focused(): Focusable | null {
+    return this._focused;
+  }
+
+  /** Moves focus to an element (or clears it with null). */
+  public static focus(target: Focusable | null): void {
+    if (target === this._focused) return;
+    if (this._focused && !this._focused.destroyed) {
+      this._focused.setFocused(false);
+    }
+    this._focused = target;
+    target?.setFocused(true);
+
+    for (const listener of this._listeners) {
+      listener(target);
+    }
+  }
+
+  public static blur(): void {
+    this.focus(null);
+  }
+
+  /**
+   * Calls the listener whenever focus moves.
+   * @returns Function that removes the listener
+   */
+  public static subscribe(listener: FocusListener): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  /**
+   * Lets key presses inside a DOM element (e.g. the accessibility mirror) drive navigation.
+   * @returns A function that unregisters the element
+   */
+  public static addKeyTarget(element: HTMLElement): () => void {
+    this._keyTargets.add(element);
+    return () => this._keyTargets.delete(element);
+  }
+
+  /** The topmost pushed scope, otherwise the scene receiving input. */
+  public static get scope(): FocusScope | undefined {
+    return this._scopes[this._scopes.length - 1]?.scope ?? SceneManager.inputScene;
+  }
+
+  /**
+   * Gives navigation to a scope above the scene until removed. Focus moves into the scope
+   * and returns to the previously focused element on removal.
+   * @returns Function that removes the scope
+   */
+  public static pushScope(scope: FocusScope): () => void {
+    const entry = { scope, restore: this._focused };
+    this._scopes.push(entry);
+    this.blur();
+
+    return () => {
+      const index = this._scopes.indexOf(entry);
+      if (index === -1) return;
+      this._scopes.splice(index, 1);
+      if (index === this._scopes.length) {
+        this.focus(entry.restore && !entry.restore.destroyed ? entry.restore : null);
+      }
+    };
+  }
+
+  /** Focusable elements of the active scope that can currently be used, in focus order. */
+  public static focusables(): Focusable[] {
+    return (this.scope?.focusOrder?.() ?? []).filter(el => !el.destroyed && !el.disabled && this.isShown(el));
+  }
+
+  private static onKeyDown = (e: KeyboardEvent): void => {
+    if (e.ctrlKey || e.metaKey || e.altKey || !this.ownsKeyboard(e.target)) return;
+
+    let command: Command | undefined;
+    switch (e.key) {
+      case 'ArrowUp': command = 'up'; break;
+      case 'ArrowDown': command = 'down'; break;
+      case 'ArrowLeft': command = 'left'; break;
+      case 'ArrowRight': command = 'right'; break;
+      case 'Tab': command = e.shiftKey ? 'previous' : 'next'; break;
+      case 'Enter':
+      case ' ': command = 'activate'; break;
+      case 'Escape': command = 'back'; break;
+    }
+    if (!command) return;
+
+    e.preventDefault();
+    this.run(command);
+  };
+
+  /** True if the key event target is the page, the canvas or inside a key target; never a text field. */
+  private static ownsKeyboard(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return true;
+    if (target.isContentEditable || target instanceof HTMLInputElement
+      || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+      return false;
+    }
+    if (target === document.body || target === document.documentElement || target === this._app?.canvas) {
+      return true;
+    }
+    for (const element of this._keyTargets) {
+      if (element.contains(target)) return true;
+    }
+    return false;
+  }
+
+  private static onPointerDown = (): void => {
+    this.blur();
+  };
+
+  private static run(command: Command): void {
+    if (command === 'back') {
+      if (this._scopes.length > 0) {
+        this.scope?.back?.();
+      } else {
+        this._onBack?.();
+      }
+      return;
+    }
+
+    const elements = this.focusables();
+    const current = this._focused && elements.includes(this._focused) ? this._focused : null;
+
+    if (command === 'activate') {
+      current?.activate();
+      return;
+    }
+    if (elements.length === 0) {
+      this.blur();
+      return;
+    }
+    // The first navigation input only reveals focus on the first element
+    if (!current) {
+      this.focus(elements[0]);
+      return;
+    }
+
+    const index = elements.indexOf(current);
+    if ((command === 'left' || command === 'right') && current.adjust) {
+      current.adjust(command === 'left' ? -1 : 1);
+    } else if (command === 'next') {
+      this.focus(elements[(index + 1) % elements.length]);
+    } else if (command === 'previous') {
+      this.focus(elements[(index - 1 + elements.length) % elements.length]);
+    } else {
+      this.focus(this.nearest(current, elements, command) ?? current);
+    }
+  }
+
+  private static isShown(el: Container): boolean {
+    for (let node: Container | null = el; node; node = node.parent) {
+      if (!node.visible || node.eventMode === 'none') return false;
+    }
+    return true;
+  }
+
+  /**
+   * Closest element in a direction, preferring ones in line with the current element:
+   * distance along the direction plus twice the sideways offset.
+   */
+  private static nearest(from: Focusable, elements: Focusable[], direction: Direction): Focusable | undefined {
+    const origin = from.getGlobalPosition(new Point());
+    let best: Focusable | undefined;
+    let bestScore = Infinity;
+
+    for (const el of elements) {
+      if (el === from) continue;
+      const p = el.getGlobalPosition(new Point());
+      const dx = p.x - origin.x;
+      const dy = p.y - origin.y;
+
+      const along = direction === 'up' ? -dy : direction === 'down' ? dy : direction === 'left' ? -dx : dx;
+      const across = direction === 'up' || direction === 'down' ? Math.abs(dx) : Math.abs(dy);
+      if (along <= 0) continue;
+
+      const score = along + across * 2;
+      if (score < bestScore) {
+        bestScore = score;
+        best = el;
+      }
+    }
+    return best;
+  }
+
+  /** Reads the first connected gamepad: D-pad, left stick and A/B, with repeat while held. */
+  private static pollGamepads(): void {
+    const pad = navigator.getGamepads?.().find(p => p?.connected);
+    if (!pad) {
+      this._held = null;
+      return;
+    }
+
+    let command: Command | undefined;
+    for (const [index, mapped] of Object.entries(GAMEPAD_BUTTONS)) {
+      if (pad.buttons[Number(index)]?.pressed) {
+        command = mapped;
+        break;
+      }
+    }
+    if (!command) {
+      const [x = 0, y = 0] = pad.axes;
+      if (y < -STICK_THRESHOLD) command = 'up';
+      else if (y > STICK_THRESHOLD) command = 'down';
+      else if (x < -STICK_THRESHOLD) command = 'left';
+      else if (x > STICK_THRESHOLD) command = 'right';
+    }
+
+    const now = performance.now();
+    if (!command) {
+      this._held = null;
+    } else if (this._held?.command !== command) {
+      this._held = { command, repeatAt: now + REPEAT_DELAY };
+      this.run(command);
+    } else if (now >= this._held.repeatAt && command !== 'activate' && command !== 'back') {
+      this._held.repeatAt = now + REPEAT_INTERVAL;
+      this.run(command);
+    }
+  }
+}
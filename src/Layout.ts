@@ -0,0 +1,145 @@
+import { Container, Rectangle } from 'pixi.js';
+import { SceneManager } from './SceneManager';
+
+export type AnchorPoint =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'center-left' | 'center' | 'center-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export type Orientation = 'portrait' | 'landscape';
+
+export interface AnchorSpec {
+  /** Point of the safe area the element is placed relative to. */
+  at: AnchorPoint;
+  /** Horizontal offset from the anchor point (negative moves left). */
+  x?: number;
+  /** Vertical offset from the anchor point (negative moves up). */
+  y?: number;
+}
+
+export interface AnchorOptions extends AnchorSpec {
+  /** Alternative placement used while the viewport is in landscape orientation. */
+  landscape?: AnchorSpec;
+}
+
+interface Insets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Places UI relative to the safe area: the visible part of the stage minus device cutouts
+ * (notches, rounded corners, home indicators) reported by CSS `env(safe-area-inset-*)`.
+ * Anchored elements are re-positioned whenever SceneManager resizes.
+ */
+export class Layout {
+  private static _anchors: Map<Container, AnchorOptions> = new Map();
+  private static _safeArea = new Rectangle();
+  private static _orientation: Orientation = 'portrait';
+  private static _probe: HTMLDivElement | null = null;
+
+  /** Safe area in logical stage coordinates. */
+  public static get safeArea(): Rectangle {
+    return this._safeArea;
+  }
+
+  public static get orientation(): Orientation {
+    return this._orientation;
+  }
+
+  /**
+   * Positions an element relative to the safe area and keeps it there on resize.
+   * The element is forgotten automatically when destroyed.
+   * @param target Element whose parent is positioned at the stage origin (e.g. a scene)
+   * @param options Anchor point, offsets and optional landscape placement
+   */
+  public static anchor<T extends Container>(target: T, options: AnchorOptions): T {
+    if (!this._anchors.has(target)) {
+      target.once('destroyed', () => this._anchors.delete(target));
+    }
+    this._anchors.set(target, options);
+    this.place(target, options);
+    return target;
+  }
+
+  /** Stops re-positioning an element. */
+  public static unanchor(target: Container): void {
+    this._anchors.delete(target);
+  }
+
+  /** Re-measures insets and orientation, then re-positions every anchored element. */
+  public static refresh(): void {
+    // Insets and the canvas rect are both relative to the layout viewport
+    const viewportW = window.innerWidth;
+    const viewportH = window.innerHeight;
+    this._orientation = viewportW > viewportH ? 'landscape' : 'portrait';
+
+    this._safeArea = this.measureSafeArea(viewportW, viewportH);
+
+    for (const [target, options] of this._anchors) {
+      this.place(target, options);
+    }
+  }
+
+  private static place(target: Container, options: AnchorOptions): void {
+    const spec = this._orientation === 'landscape' && options.landscape ? options.landscape : options;
+    const area = this._safeArea.width > 0 ? this._safeArea : SceneManager.visibleArea;
+    const [vertical, horizontal] = spec.at === 'center' ? ['center', 'center'] : spec.at.split('-');
+
+    const ax = horizontal === 'left' ? area.left : horizontal === 'right' ? area.right : area.x + area.width / 2;
+    const ay = vertical === 'top' ? area.top : vertical === 'bottom' ? area.bottom : area.y + area.height / 2;
+    target.position.set(ax + (spec.x ?? 0), ay + (spec.y ?? 0));
+  }
+
+  /**
+   * Shrinks SceneManager's visible area by the part of each CSS safe-area inset that actually
+   * overlaps the canvas (letterbox bars may already keep the canvas clear of a notch).
+   */
+  private static measureSafeArea(viewportW: number, viewportH: number): Rectangle {
+    const visible = SceneManager.visibleArea;
+    const canvas = SceneManager.app?.canvas;
+    if (!canvas) return visible.clone();
+
+    const rect = canvas.getBoundingClientRect();
+    const scale = rect.width / SceneManager.width;
+    if (!(scale > 0)) return visible.clone();
+
+    const insets = this.readInsets();
+    const left = Math.max(0, insets.left - Math.max(0, rect.left)) / scale;
+    const top = Math.max(0, insets.top - Math.max(0, rect.top)) / scale;
+    const right = Math.max(0, insets.right - Math.max(0, viewportW - rect.right)) / scale;
+    const bottom = Math.max(0, insets.bottom - Math.max(0, viewportH - rect.bottom)) / scale;
+
+    return new Rectangle(
+      visible.x + left,
+      visible.y + top,
+      Math.max(0, visible.width - left - right),
+      Math.max(0, visible.height - top - bottom),
+    );
+  }
+
+  /** Reads `env(safe-area-inset-*)` in CSS pixels through a hidden probe element. */
+  private static readInsets(): Insets {
+    if (!this._probe) {
+      const probe = document.createElement('div');
+      probe.style.cssText = [
+        'position: fixed',
+        'visibility: hidden',
+        'pointer-events: none',
+        'padding: env(safe-area-inset-top) env(safe-area-inset-right) env(safe-area-inset-bottom) env(safe-area-inset-left)',
+      ].join(';');
+      document.body.appendChild(probe);
+      this._probe = probe;
+    }
+
+    const style = getComputedStyle(this._probe);
+    return {
+      top: parseFloat(style.paddingTop) || 0,
+      right: parseFloat(style.paddingRight) || 0,
+      bottom: parseFloat(style.paddingBottom) || 0,
+      left: parseFloat(style.paddingLeft) || 0,
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import { config } from './config';
+import type { SoundCategory } from './SoundManager';
+
+/** User choices that survive reloads. */
+export interface PreferenceValues {
+  /** Global audio mute */
+  muted: boolean;
+  /** Master volume (0-1) */
+  masterVolume: number;
+  /** Volume (0-1) per sound category */
+  volumes: Record<SoundCategory, number>;
+  /** Mute per sound category, independent of the global mute */
+  mutedCategories: Record<SoundCategory, boolean>;
+  /** Enter fullscreen on first interaction */
+  fullscreen: boolean;
+  /** Replace moving scene transitions with a short crossfade */
+  reducedMotion: boolean;
+}
+
+export type PreferenceKey = keyof PreferenceValues;
+
+/** Receives the changed key and all current values. */
+export type PreferenceListener = (key: PreferenceKey, values: Readonly<PreferenceValues>) => void;
+
+/** The subset of the Web Storage API preferences need. */
+interface PreferenceStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const STORAGE_KEY = 'pixi-examples.preferences';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/** Values for preferences the user never set. Computed on demand, as some follow system settings. */
+function defaults(): PreferenceValues {
+  return {
+    muted: false,
+    masterVolume: 1,
+    volumes: { music: 1, sfx: 1, ui: 1, voice: 1 },
+    mutedCategories: { music: false, sfx: false, ui: false, voice: false },
+    fullscreen: config.display.fullscreen,
+    reducedMotion: typeof matchMedia === 'function' && matchMedia(REDUCED_MOTION_QUERY).matches,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns a saved value if it has the default's type, otherwise undefined. Numbers are
+ * volumes, so they are clamped to 0-1; records keep the default for invalid entries.
+ */
+function sanitize(value: unknown, fallback: unknown): unknown {
+  if (typeof fallback === 'boolean') {
+    return typeof value === 'boolean' ? value : undefined;
+  }
+  if (typeof fallback === 'number') {
+    return typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : undefined;
+  }
+  if (isRecord(fallback) && isRecord(value)) {
+    const result: Record<string, unknown> = { ...fallback };
+    let valid = false;
+    for (const key of Object.keys(fallback)) {
+      const entry = sanitize(value[key], fallback[key]);
+      if (entry !== undefined) {
+        result[key] = entry;
+        valid = true;
+      }
+    }
+    return valid ? result : undefined;
+  }
+  return undefined;
+}
+
+/** Returns localStorage, or an in-memory stand-in when it is unavailable (private mode, disabled cookies). */
+function createStorage(): PreferenceStorage {
+  try {
+    const probe = `${STORAGE_KEY}.probe`;
+    localStorage.setItem(probe, '1');
+    localStorage.removeItem(probe);
+    return localStorage;
+  } catch (e) {
+    const memory = new Map<string, string>();
+    return {
+      getItem: (key) => memory.get(key) ?? null,
+      setItem: (key, value) => { memory.set(key, value); },
+    };
+  }
+}
+
+/**
+ * Persisted user preferences. Restored once at boot with `init`; every change is saved
+ * and reported to listeners, so all UI showing a preference stays in sync. Only values the
+ * user set are saved; the rest keep following their defaults, e.g. `reducedMotion` tracks
+ * the system setting until the user picks a value.
+ */
+class PreferencesClass {
+  private _values: PreferenceValues = defaults();
+  /** Values the user set explicitly; the only ones saved. */
+  private _chosen: Partial<PreferenceValues> = {};
+  private _storage: PreferenceStorage | null = null;
+  private _listeners: Set<PreferenceListener> = new Set();
+
+  /** Loads saved preferences and notifies listeners of every value, so consumers apply them. */
+  init(): void {
+    this._storage = createStorage();
+    this._chosen = this.read();
+    const base = defaults();
+    this._values = {
+      ...base,
+      ...this._chosen,
+      volumes: { ...base.volumes, ...this._chosen.volumes },
+      mutedCategories: { ...base.mutedCategories, ...this._chosen.mutedCategories },
+    };
+
+    if (typeof matchMedia === 'function') {
+      matchMedia(REDUCED_MOTION_QUERY).addEventListener('change', this.onSystemChange);
+    }
+
+    for (const key of Object.keys(this._values) as PreferenceKey[]) {
+      this.emit(key);
+    }
+  }
+
+  /**
+   * Returns a preference.
+   * @param key - Preference name
+   */
+  get<K extends PreferenceKey>(key: K): PreferenceValues[K] {
+    return this._values[key];
+  }
+
+  /**
+   * Records a preference as the user's choice, saves it and notifies listeners if the value changed.
+   * A value equal to the default is still saved, so it stops following the default.
+   * @param key - Preference name
+   * @param value - New value
+   */
+  set<K extends PreferenceKey>(key: K, value: PreferenceValues[K]): void {
+    const unchanged = JSON.stringify(this._values[key]) === JSON.stringify(value);
+    if (unchanged && key in this._chosen) return;
+
+    this._chosen[key] = value;
+    this._values[key] = value;
+    this.write();
+    if (!unchanged) this.emit(key);
+  }
+
+  /**
+   * Calls the listener whenever a preference changes.
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: PreferenceListener): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  /** Follows the system reduced-motion setting while the user has not chosen a value. */
+  private onSystemChange = (): void => {
+    if (this._chosen.reducedMotion !== undefined) return;
+    const value = defaults().reducedMotion;
+    if (value === this._values.reducedMotion) return;
+    this._values.reducedMotion = value;
+    this.emit('reducedMotion');
+  };
+
+  private emit(key: PreferenceKey): void {
+    for (const listener of this._listeners) {
+      listener(key, this._values);
+    }
+  }
+
+  /** Saved choices; values whose type does not match the default (stale or hand-edited storage) are dropped. */
+  private read(): Partial<PreferenceValues> {
+    let saved: unknown;
+    try {
+      const raw = this._storage?.getItem(STORAGE_KEY);
+      saved = raw ? JSON.parse(raw) : {};
+    } catch (e) {
+      return {};
+    }
+    if (!isRecord(saved)) return {};
+
+    const base = defaults();
+    const chosen: Record<string, unknown> = {};
+    for (const key of Object.keys(base) as PreferenceKey[]) {
+      const value = sanitize(saved[key], base[key]);
+      if (value !== undefined) chosen[key] = value;
+    }
+    return chosen as Partial<PreferenceValues>;
+  }
+
+  private write(): void {
+    try {
+      this._storage?.setItem(STORAGE_KEY, JSON.stringify(this._chosen));
+    } catch (e) {
+      // Quota exceeded: keep the in-memory value for this session
+    }
+  }
+}
+
+export const Preferences = new PreferencesClass();
@@ -0,0 +1,144 @@
+import { SceneManager, type IScene } from './SceneManager';
+import { FadeTransition } from './transitions/FadeTransition';
+import { findScene, type SceneDefinition } from './sceneRegistry';
+import { ConfigStore } from './ConfigStore';
+import { Dialogs } from './Dialogs';
+
+export interface RouterOptions {
+  /** Scene shown at `#/` (and under every routed scene, so browser back returns to it). */
+  home: () => IScene;
+  /** Bundles loaded (not retained) behind the loading screen before the first scene is shown. */
+  preload?: string[];
+}
+
+/**
+ * Maps URL hashes like `#/phoenix-flame` to registered scenes and keeps browser history in sync,
+ * so demos can be deep-linked and the browser back button returns to the menu.
+ * Routed scenes are always pushed on top of the home scene. Leaving a scene with a
+ * `leaveWarning`, by any of these routes, waits for the user to confirm.
+ */
+export class Router {
+  private static _home: () => IScene;
+  /** Scene currently shown on top of home, if any. */
+  private static _current?: SceneDefinition;
+  /** Leave confirmation on screen after a browser back, with the history entries re-pushed meanwhile. */
+  private static _leavePrompt: { pushes: number } | null = null;
+  /** Set while history steps back after a confirmed leave, so that popstate is not questioned again. */
+  private static _leaving = false;
+
+  /**
+   * Shows the home scene (preloading bundles behind the loading screen), then opens the
+   * route from the URL if there is one.
+   */
+  public static async start(options: RouterOptions): Promise<void> {
+    this._home = options.home;
+    window.addEventListener('popstate', this.onPopState);
+
+    const scene = this.match(location.hash);
+    await SceneManager.changeScene(this._home, undefined, { transition: new FadeTransition(), preload: options.preload });
+
+    // Give deep links a home entry underneath so browser back lands on the menu
+    history.replaceState({ route: '' }, '', this.href(''));
+    if (scene) {
+      this.navigate(scene.id);
+    }
+  }
+
+  /** Opens a registered scene by id, adding a history entry. */
+  public static navigate(id: string): void {
+    const scene = findScene(id);
+    if (!scene) {
+      console.warn(`[Router] Unknown scene "${id}"`);
+      return;
+    }
+
+    history.pushState({ route: scene.id }, '', this.href(scene.id));
+    void this.open(scene);
+  }
+
+  /**
+   * Goes back one step: through browser history when the current entry is a routed scene,
+   * otherwise by popping the scene stack (or showing home).
+   */
+  public static back(): void {
+    if (history.state?.route) {
+      history.back(); // popstate asks about leaving
+      return;
+    }
+    void this.confirmLeave().then(leave => {
+      if (leave) void this.showHome();
+    });
+  }
+
+  public static destroy(): void {
+    window.removeEventListener('popstate', this.onPopState);
+  }
+
+  private static onPopState = (): void => {
+    if (this._leaving) {
+      this._leaving = false;
+    } else if (this._current && SceneManager.currentScene?.leaveWarning) {
+      // The browser already stepped back: restore the entry and only leave once confirmed
+      history.pushState({ route: this._current.id }, '', this.href(this._current.id));
+      if (this._leavePrompt) {
+        this._leavePrompt.pushes++;
+        return;
+      }
+      const prompt = { pushes: 1 };
+      this._leavePrompt = prompt;
+      void this.confirmLeave().then(leave => {
+        this._leavePrompt = null;
+        if (!leave) return;
+        this._leaving = true;
+        history.go(-prompt.pushes);
+      });
+      return;
+    }
+
+    const scene = this.match(location.hash);
+    if (scene) {
+      void this.open(scene);
+    } else {
+      void this.showHome();
+    }
+  };
+
+  /** Opens a scene above home, replacing the routed scene that is currently shown. */
+  private static open(scene: SceneDefinition): Promise<unknown> {
+    ConfigStore.applyUrlOverrides(scene.configSection);
+
+    const options = { transition: new FadeTransition() };
+    const opened = this._current && SceneManager.canPop
+      ? SceneManager.replaceScene(scene.create, scene.bundles, options)
+      : SceneManager.pushScene(scene.create, scene.bundles, options);
+
+    this._current = scene;
+    return opened;
+  }
+
+  private static showHome(): Promise<unknown> {
+    this._current = undefined;
+    const transition = new FadeTransition();
+    return SceneManager.canPop
+      ? SceneManager.popScene({ transition })
+      : SceneManager.changeScene(this._home, undefined, { transition });
+  }
+
+  /** Asks before leaving a scene that has a `leaveWarning`; resolves true right away for others. */
+  private static async confirmLeave(): Promise<boolean> {
+    const warning = SceneManager.currentScene?.leaveWarning;
+    if (!warning) return true;
+    return Dialogs.confirm('Leave scene?', warning, 'Leave', 'Stay');
+  }
+
+  /** Returns the scene for a hash like `#/seeds?x=1`, or undefined for home/unknown paths. */
+  private static match(hash: string): SceneDefinition | undefined {
+    const path = hash.replace(/^#\/?/, '').split('?')[0];
+    return path ? findScene(path) : undefined;
+  }
+
+  /** Builds a URL for a path, keeping the current query string (and with it any overrides). */
+  private static href(path: string): string {
+    return `${location.pathname}${location.search}#/${path}`;
+  }
+}
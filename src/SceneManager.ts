@@ -1,112 +1,688 @@
-import { Application, Assets, Container, Ticker } from 'pixi.js';
+import { Application, Container, Rectangle, Ticker } from 'pixi.js';
+import { gsap } from 'gsap';
 import { LoadingScene } from './scenes/LoadingScene';
+import { SoundManager } from './SoundManager';
+import { AssetLifecycle, BundleLoadError } from './AssetLifecycle';
+import { Layout } from './Layout';
 import { config } from './config';
+import { ConfigStore, type ConfigChange } from './ConfigStore';
+import type { SceneTransition } from './transitions/SceneTransition';
+import { CrossfadeTransition } from './transitions/CrossfadeTransition';
+import { Preferences } from './Preferences';
+import type { Focusable } from './FocusManager';
+import type { AccessibleContent } from './Accessibility';
 
 export interface IScene extends Container {
-  update(delta: number): void;
+  // `delta` is the ticker delta in frames; `alpha` is how far (0-1) the render time is between
+  // the last two fixed steps, for interpolating scenes that implement fixedUpdate
+  update(delta: number, alpha?: number): void;
   resize(width: number, height: number): void;
   cleanup(): void;
   
   // Optional: Scenes with heavy async init implement this
   init?(): Promise<void>;
+
+  // Optional: called when the scene stops receiving updates (tab hidden, focus lost,
+  // covered by a pushed scene) and when it starts receiving them again
+  pause?(): void;
+  resume?(): void;
+
+  // Optional: opt in to a fixed-timestep simulation. Called at `config.simulation.fixedStepRate`
+  // with `dt` in seconds, independent of display refresh rate, before `update` each frame
+  fixedUpdate?(dt: number): void;
+
+  // Optional: SoundManager key of the music track to play while the scene is on top.
+  // Changing to a scene crossfades the music; scenes without one fade it out, except
+  // overlays, which keep the track of the scene below.
+  readonly music?: string;
+
+  // Optional: called on every live scene when a config value changes at runtime
+  // (tuning panel, ConfigStore.set). Values read at use time need no handler.
+  configChanged?(change: ConfigChange): void;
+
+  // Optional: the scene's focusable UI in keyboard/gamepad navigation order (Tab order).
+  // Called on every navigation input, so it can return different elements as the scene changes.
+  focusOrder?(): Focusable[];
+
+  // Optional: text mirrored for screen readers while the scene receives input. Focusable
+  // elements are mirrored from focusOrder. Read every frame, so keep it cheap.
+  accessibleContent?(): AccessibleContent;
+
+  // Optional: while set, going back (Back button, Escape / B or browser back) asks the user to
+  // confirm leaving the scene, explaining with this text what would be lost (e.g. progress).
+  readonly leaveWarning?: string;
+}
+
+export interface ChangeSceneOptions {
+  /** Animates the swap between scenes. Omit for an instant cut. */
+  transition?: SceneTransition;
+  /** Cancels the request. Requests are also cancelled when a newer one is made. */
+  signal?: AbortSignal;
+  /**
+   * Extra bundles loaded behind the same loading screen but not retained by the scene
+   * (e.g. warming every scene's assets at boot); they stay evictable once idle.
+   */
+  preload?: string[];
+}
+
+export interface PushSceneOptions extends ChangeSceneOptions {
+  /** Keep the scene below visible (e.g. a pause menu drawn over the game). Default false. */
+  overlay?: boolean;
+  /** Keep calling `update()` on the scene below. Default false. */
+  updateBelow?: boolean;
+  /** Let pointer input reach the scene below. Default false. */
+  inputBelow?: boolean;
+}
+
+/** Outcome of `changeScene`/`pushScene`/`replaceScene`. */
+export type SceneChangeResult =
+  | { ok: true; scene: IScene }
+  | { ok: false; reason: 'load-failed'; error: BundleLoadError }
+  | { ok: false; reason: 'init-failed'; error: unknown }
+  | { ok: false; reason: 'cancelled' };
+
+const CANCELLED: SceneChangeResult = { ok: false, reason: 'cancelled' };
+
+export interface SceneManagerOptions {
+  /** Scene shown when the user backs out of a failed load and there is no scene to return to. */
+  homeScene?: () => IScene;
+}
+
+type SceneFactory = IScene | (() => IScene);
+type BundleIds = string | string[];
+
+/** Why the manager is globally paused; it stays paused while any reason remains. */
+type PauseReason = 'manual' | 'hidden' | 'blur';
+
+/** How a newly opened scene affects the existing stack. */
+type OpenMode = 'change' | 'push' | 'replace';
+
+interface SceneEntry {
+  scene: IScene;
+  options: Required<Omit<PushSceneOptions, keyof ChangeSceneOptions>>;
 }
 
+const BASE_ENTRY_OPTIONS: SceneEntry['options'] = { overlay: false, updateBelow: false, inputBelow: false };
 
 export class SceneManager {
   private static _app: Application;
   public static get app(): Application { return this._app; }
-  private static currentScene?: IScene;
+  /** Scene stack, bottom first. The last entry is the active scene. */
+  private static _stack: SceneEntry[] = [];
+  /** Scene being transitioned away from; kept alive and updated until the transition completes. */
+  private static _outgoingScene?: IScene;
   private static loadingScene: LoadingScene;
-  private static readonly DESIGN_W = config.design.width;
-  private static readonly DESIGN_H = config.design.height;
+  private static _loadingActive = false;
+  private static _pauseReasons = new Set<PauseReason>();
+  /** Scenes whose `pause()` hook has been called without a matching `resume()`. */
+  private static _pausedScenes = new Set<IScene>();
+  /** Logical size of the stage; equals the design size unless the viewport uses 'expand' scaling. */
+  private static _width: number = config.design.width;
+  private static _height: number = config.design.height;
+  private static _visibleArea = new Rectangle(0, 0, config.design.width, config.design.height);
+  private static _homeScene?: () => IScene;
+  /** Scene requests run one at a time, chained on this promise. */
+  private static _queue: Promise<unknown> = Promise.resolve();
+  /** Controller of the newest request; aborted when an even newer one arrives. */
+  private static _latestRequest?: AbortController;
+  /** Requests queued or running. */
+  private static _activeRequests = 0;
+  /** Unsimulated time (seconds) carried over between frames for `fixedUpdate`. */
+  private static _fixedAccumulator = 0;
+  private static _unsubscribeConfig?: () => void;
 
-  public static async init(app: Application) {
+  public static async init(app: Application, options: SceneManagerOptions = {}) {
     this._app = app;
+    this._homeScene = options.homeScene;
     
     // 1. Initialize the loading scene immediately
     this.loadingScene = new LoadingScene();
     
     this._app.ticker.add(this.update, this);
+
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    window.addEventListener('blur', this.onWindowBlur);
+    window.addEventListener('focus', this.onWindowFocus);
+
+    this._unsubscribeConfig = ConfigStore.subscribe((change) => {
+      for (const { scene } of this._stack) {
+        scene.configChanged?.(change);
+      }
+    });
+  }
+
+  /**
+   * Global pause: no ticker deltas reach scenes, GSAP's global timeline is suspended
+   * and audio is muted. Also set automatically while the tab is hidden or the window is unfocused.
+   */
+  public static get paused(): boolean {
+    return this._pauseReasons.size > 0;
+  }
+
+  public static set paused(value: boolean) {
+    this.setPauseReason('manual', value);
   }
 
-  public static get width(): number { return this.DESIGN_W; }
-  public static get height(): number { return this.DESIGN_H; }
+  private static setPauseReason(reason: PauseReason, active: boolean): void {
+    const wasPaused = this.paused;
+    if (active) {
+      this._pauseReasons.add(reason);
+    } else {
+      this._pauseReasons.delete(reason);
+    }
+    if (wasPaused === this.paused) return;
+
+    if (this.paused) {
+      gsap.globalTimeline.pause();
+    } else {
+      gsap.globalTimeline.resume();
+    }
+    SoundManager.setSuspended(this.paused);
+    this.syncScenePause();
+  }
+
+  private static onVisibilityChange = (): void => {
+    if (config.pause.whenHidden) {
+      this.setPauseReason('hidden', document.hidden);
+    }
+  };
+
+  private static onWindowBlur = (): void => {
+    if (config.pause.whenBlurred) {
+      this.setPauseReason('blur', true);
+    }
+  };
+
+  private static onWindowFocus = (): void => {
+    this.setPauseReason('blur', false);
+  };
+
+  public static get width(): number { return this._width; }
+  public static get height(): number { return this._height; }
 
-  private static readonly MIN_LOADING_TIME = config.loading.minDisplayTime;
+  /** Part of the logical stage actually visible on screen (smaller than width/height with 'fill' scaling). */
+  public static get visibleArea(): Rectangle { return this._visibleArea; }
+
+  /** The scene on top of the stack. */
+  public static get currentScene(): IScene | undefined {
+    return this._stack[this._stack.length - 1]?.scene;
+  }
+
+  /** The scene receiving input: the loading scene while it is shown, otherwise the current scene. */
+  public static get inputScene(): IScene | undefined {
+    return this._loadingActive ? this.loadingScene : this.currentScene;
+  }
+
+  /** True while a scene change, push, replace or pop is queued or running. UI can use it to ignore input. */
+  public static get isTransitioning(): boolean {
+    return this._activeRequests > 0;
+  }
+
+  /** True when there is a scene below the active one to pop back to. */
+  public static get canPop(): boolean {
+    return this._stack.length > 1;
+  }
 
   /**
    * Changes to a new scene with optional bundle loading and loading screen.
+   * Clears the whole stack, including any pushed overlays.
+   * With a transition and a bundle, the swap plays twice: current scene → loading screen → new scene.
    * @param sceneFactory Factory function that creates the scene (called after bundle loads), or scene instance.
-   * @param bundleId The asset bundle key from your manifest to load. Loading screen only shows if bundle is provided.
+   * @param bundleId The asset bundle key (or keys) from your manifest to load. Loading screen only shows if a bundle is not loaded yet.
+   * @param options Optional transition used to animate the swap. Without one the scenes are cut instantly.
+   * @returns The new scene, or the load error if the user gave up after a failed bundle load.
+   */
+  public static changeScene(
+    sceneFactory: SceneFactory,
+    bundleId?: BundleIds,
+    options: ChangeSceneOptions = {},
+  ): Promise<SceneChangeResult> {
+    return this.enqueue(options.signal, CANCELLED, signal => this.openScene('change', sceneFactory, bundleId, options, signal));
+  }
+
+  /**
+   * Pushes a scene on top of the current one, which stays alive underneath.
+   * By default the scene below is hidden, frozen and ignores input; see {@link PushSceneOptions}.
+   */
+  public static pushScene(
+    sceneFactory: SceneFactory,
+    bundleId?: BundleIds,
+    options: PushSceneOptions = {},
+  ): Promise<SceneChangeResult> {
+    return this.enqueue(options.signal, CANCELLED, signal => this.openScene('push', sceneFactory, bundleId, options, signal));
+  }
+
+  /** Replaces the top scene of the stack, leaving the scenes below untouched. */
+  public static replaceScene(
+    sceneFactory: SceneFactory,
+    bundleId?: BundleIds,
+    options: PushSceneOptions = {},
+  ): Promise<SceneChangeResult> {
+    return this.enqueue(options.signal, CANCELLED, signal => this.openScene('replace', sceneFactory, bundleId, options, signal));
+  }
+
+  /**
+   * Pops the top scene and reveals the one below it.
+   * @returns false if there was nothing to pop back to (the base scene is never popped) or the pop was cancelled.
+   */
+  public static popScene(options: ChangeSceneOptions = {}): Promise<boolean> {
+    return this.enqueue(options.signal, false, async () => {
+      if (!this.canPop) return false;
+
+      const popped = this._stack.pop()!;
+      const revealed = this.currentScene!;
+      const wasLoading = this._loadingActive;
+      const from = wasLoading ? this.loadingScene : popped.scene;
+      this._loadingActive = false;
+
+      await this.present(revealed, from, options.transition);
+
+      if (wasLoading) {
+        this._app.stage.removeChild(this.loadingScene);
+      }
+      this.retireScene(popped.scene);
+      this.refreshStack();
+      return true;
+    });
+  }
+
+  /**
+   * Runs scene requests one after another. The newest request wins: making a request aborts
+   * any older one that is still queued (its factory is never called) or running (it stops at
+   * the next checkpoint before constructing its scene).
+   * @param external Caller-provided signal, combined with the latest-wins signal
+   * @param cancelled Value returned when the request is aborted before it starts
+   */
+  private static enqueue<T>(
+    external: AbortSignal | undefined,
+    cancelled: T,
+    run: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    this._latestRequest?.abort();
+    const controller = new AbortController();
+    this._latestRequest = controller;
+    external?.addEventListener('abort', () => controller.abort(), { once: true });
+    if (external?.aborted) controller.abort();
+
+    this._activeRequests++;
+    const result = this._queue.then(async () => {
+      try {
+        if (controller.signal.aborted) {
+          await this.abandonLoading();
+          return cancelled;
+        }
+        return await run(controller.signal);
+      } finally {
+        this._activeRequests--;
+        if (this._latestRequest === controller) this._latestRequest = undefined;
+      }
+    });
+
+    this._queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Called when a request is aborted. If it left the loading screen up and no newer request
+   * is queued to take over from it, the stack (or home scene) is put back on screen.
+   */
+  private static async abandonLoading(transition?: SceneTransition): Promise<void> {
+    if (this._loadingActive && this._activeRequests === 1) {
+      await this.leaveFailedLoad(transition);
+    }
+  }
+
+  /** Resolves after `ms`, or as soon as `signal` aborts. */
+  private static wait(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  private static async openScene(
+    mode: OpenMode,
+    sceneFactory: SceneFactory,
+    bundleId: BundleIds | undefined,
+    options: PushSceneOptions,
+    signal: AbortSignal,
+  ): Promise<SceneChangeResult> {
+    const { transition, signal: _external, preload = [], ...entryOptions } = options;
+    const startTime = Date.now();
+    let retired: SceneEntry[] = [];
+    // Replaced entries are taken exactly once per request, even when taking over a loading screen
+    let replacedTaken = false;
+
+    // Bundles that are already warm (e.g. preloaded at boot) open without a loading screen
+    const bundleIds = (typeof bundleId === 'string' ? [bundleId] : bundleId ?? []).filter(Boolean);
+    const pending = [...new Set([...bundleIds, ...preload])].filter(id => !AssetLifecycle.isLoaded(id));
+    const showLoadingScreen = pending.length > 0;
+
+    // 1. Show LoadingScene if bundle needed; scenes that are going away are retired right after.
+    // An aborted predecessor may have left it up already, in which case we take over from it.
+    if (showLoadingScreen) {
+      this.loadingScene.setProgress(0);
+      if (!this._loadingActive) {
+        this._loadingActive = true;
+        await this.present(this.loadingScene, this.currentScene, transition);
+      }
+      this.refreshStack();
+      this.retireEntries(this.takeReplacedEntries(mode));
+      replacedTaken = true;
+      if (signal.aborted) return this.cancel(transition);
+
+      // 2. Load bundle; on failure the loading screen offers Retry / Back and the scene is never created
+      while (true) {
+        try {
+          await AssetLifecycle.load(pending, (progress) => {
+            this.loadingScene.setProgress(progress);
+          });
+          break;
+        } catch (e) {
+          if (signal.aborted) return this.cancel(transition);
+          console.error("Failed to load bundle", pending, e);
+          const error = e instanceof BundleLoadError ? e : new BundleLoadError(pending, [], e);
+
+          const choice = await this.loadingScene.showError(error.failedAliases, signal);
+          if (signal.aborted) return this.cancel(transition);
+          if (choice === 'retry') {
+            this.loadingScene.setProgress(0);
+            continue;
+          }
+
+          await this.leaveFailedLoad(transition);
+          return { ok: false, reason: 'load-failed', error };
+        }
+      }
+      this.loadingScene.setProgress(1); // Always hit 100%
+
+      // Min display time
+      const elapsed = Date.now() - startTime;
+      const minDisplayTime = config.loading.minDisplayTime;
+      if (elapsed < minDisplayTime) {
+        await this.wait(minDisplayTime - elapsed, signal);
+      }
+    }
+
+    // Last checkpoint: past this point the scene gets constructed
+    if (signal.aborted) return this.cancel(transition);
+
+    // 3. Create new scene
+    let newScene: IScene | undefined;
+    try {
+      newScene = typeof sceneFactory === "function" ? sceneFactory() : sceneFactory;
+      AssetLifecycle.retain(newScene, bundleIds);
+
+      // 4. **GENERIC MAGIC**: Await scene's async init if it exists
+      if (typeof newScene.init === 'function') {
+        await newScene.init(); // Loading screen (or the previous scene) stays visible during this!
+      }
+    } catch (error) {
+      console.error("Failed to create scene", error);
+      if (newScene) {
+        // Half-initialised: cleanup may trip over what init never set up
+        try { newScene.cleanup(); } catch (e) {}
+        try { newScene.destroy({ children: true }); } catch (e) {}
+        AssetLifecycle.release(newScene);
+      }
+      // Without a loading screen the previous scene is still on the stack and shown
+      if (this._loadingActive) {
+        await this.leaveFailedLoad(transition);
+      }
+      return { ok: false, reason: 'init-failed', error };
+    }
+
+    // 5. Now safe to swap
+    const wasLoading = this._loadingActive;
+    const from = wasLoading ? this.loadingScene : this.currentScene;
+    if (!replacedTaken) {
+      retired = this.takeReplacedEntries(mode);
+    }
+    this._loadingActive = false;
+    this._stack.push({ scene: newScene, options: { ...BASE_ENTRY_OPTIONS, ...entryOptions } });
+
+    await this.present(newScene, from, transition);
+
+    if (wasLoading) {
+      this._app.stage.removeChild(this.loadingScene);
+    }
+    this.retireEntries(retired);
+    this.refreshStack();
+    return { ok: true, scene: newScene };
+  }
+
+  private static async cancel(transition?: SceneTransition): Promise<SceneChangeResult> {
+    await this.abandonLoading(transition);
+    return CANCELLED;
+  }
+
+  /**
+   * Dismisses the loading screen after the user backed out of a failed load: reveals the scene
+   * that is still on the stack (push), or the home scene when the stack was already cleared.
    */
-public static async changeScene(
-  sceneFactory: IScene | (() => IScene),
-  bundleId?: string,
-): Promise<void> {
-  const showLoadingScreen = !!bundleId;
-  const startTime = Date.now();
+  private static async leaveFailedLoad(transition?: SceneTransition): Promise<void> {
+    if (this._stack.length === 0 && this._homeScene) {
+      const home = this._homeScene();
+      if (typeof home.init === 'function') {
+        await home.init();
+      }
+      this._stack.push({ scene: home, options: { ...BASE_ENTRY_OPTIONS } });
+    }
 
-  // 1. Show LoadingScene if bundle needed
-  if (showLoadingScreen) {
-    this.loadingScene.setProgress(0);
-    this._app.stage.addChild(this.loadingScene);
+    this._loadingActive = false;
+    const top = this.currentScene;
+    if (top) {
+      await this.present(top, this.loadingScene, transition);
+    }
+    this._app.stage.removeChild(this.loadingScene);
+    this.refreshStack();
   }
 
-  // 2. Cleanup current scene
-  if (this.currentScene) {
-    this._app.stage.removeChild(this.currentScene);
-    this.currentScene.cleanup();
-    this.currentScene.destroy({ children: true });
-    this.currentScene = undefined;
+  /** Removes and returns the stack entries a new scene opened with `mode` replaces. */
+  private static takeReplacedEntries(mode: OpenMode): SceneEntry[] {
+    switch (mode) {
+      case 'change': return this._stack.splice(0);
+      case 'replace': return this._stack.splice(-1);
+      case 'push': return [];
+    }
   }
 
-  // 3. Load bundle (if provided)
-  if (bundleId) {
+  /**
+   * Puts `next` on top of the stage, optionally animating from `from`.
+   * `from` keeps receiving updates until the transition completes; it is not removed here.
+   */
+  private static async present(next: IScene, from: IScene | undefined, transition?: SceneTransition): Promise<void> {
+    // Reset anything a previous transition may have left on a reused scene (e.g. LoadingScene)
+    this.resetDisplay(next);
+    next.visible = true;
+
+    this._app.stage.addChild(next);
+    next.resize(this._width, this._height);
+
+    if (next !== this.loadingScene) {
+      const music = this.stackMusic();
+      if (music) {
+        SoundManager.playMusic(music);
+      } else {
+        SoundManager.stopMusic();
+      }
+    }
+
+    if (!transition) return;
+    if (Preferences.get('reducedMotion')) {
+      transition = new CrossfadeTransition();
+    }
+
+    this._outgoingScene = from;
     try {
-      await Assets.loadBundle(bundleId, (progress) => {
-        this.loadingScene.setProgress(progress);
+      await transition.play(from, next, {
+        layer: this._app.stage,
+        width: this._width,
+        height: this._height,
       });
-    } catch (e) {
-      console.error("Failed to load bundle", bundleId, e);
+    } finally {
+      this._outgoingScene = undefined;
     }
-    this.loadingScene.setProgress(1); // Always hit 100%
-    
-    // Min display time
-    const elapsed = Date.now() - startTime;
-    if (elapsed < this.MIN_LOADING_TIME) {
-      await new Promise(resolve =>
-        setTimeout(resolve, this.MIN_LOADING_TIME - elapsed)
-      );
+  }
+
+  /** Music of the top scene, or of the scene below for overlays without their own track. */
+  private static stackMusic(): string | undefined {
+    for (let i = this._stack.length - 1; i >= 0; i--) {
+      const { scene, options } = this._stack[i];
+      if (scene.music) return scene.music;
+      if (!options.overlay) return undefined;
     }
+    return undefined;
+  }
+
+  private static resetDisplay(scene: IScene): void {
+    scene.alpha = 1;
+    scene.position.set(0, 0);
   }
 
-  // 4. Create new scene
-  const newScene = typeof sceneFactory === "function" ? sceneFactory() : sceneFactory;
+  /**
+   * Applies stack options: a scene is visible only if every scene above it is an overlay,
+   * and receives input only if every scene above it allows `inputBelow`.
+   * While the loading screen is up, the whole stack is hidden and inert.
+   */
+  private static refreshStack(): void {
+    let visible = !this._loadingActive;
+    let interactive = !this._loadingActive;
 
-  // 5. **GENERIC MAGIC**: Await scene's async init if it exists
-  if (typeof newScene.init === 'function') {
-    await newScene.init(); // Loading screen stays visible during this!
+    for (let i = this._stack.length - 1; i >= 0; i--) {
+      const { scene, options } = this._stack[i];
+      this.resetDisplay(scene);
+      scene.visible = visible;
+      scene.interactiveChildren = interactive;
+
+      visible &&= options.overlay;
+      interactive &&= options.inputBelow;
+    }
+
+    this.syncScenePause();
   }
 
-  // 6. Now safe to swap
-  if (showLoadingScreen) {
-    this._app.stage.removeChild(this.loadingScene);
+  /**
+   * Calls `pause()` on live scenes that stopped receiving updates and `resume()` on those that
+   * started again, so each hook fires once per state change.
+   */
+  private static syncScenePause(): void {
+    const running = this.paused ? new Set<IScene>() : this.collectUpdatingScenes();
+    const live = new Set<IScene>(this._stack.map(entry => entry.scene));
+    if (this._loadingActive) live.add(this.loadingScene);
+    if (this._outgoingScene) live.add(this._outgoingScene);
+
+    // Forget scenes that left the stage; they are not resumed
+    for (const scene of this._pausedScenes) {
+      if (!live.has(scene)) this._pausedScenes.delete(scene);
+    }
+
+    for (const scene of live) {
+      const isPaused = this._pausedScenes.has(scene);
+      if (running.has(scene) && isPaused) {
+        this._pausedScenes.delete(scene);
+        scene.resume?.();
+      } else if (!running.has(scene) && !isPaused) {
+        this._pausedScenes.add(scene);
+        scene.pause?.();
+      }
+    }
+  }
+
+  private static retireEntries(entries: SceneEntry[]): void {
+    // Top-most first, mirroring how they were stacked
+    for (let i = entries.length - 1; i >= 0; i--) {
+      this.retireScene(entries[i].scene);
+    }
   }
-  
-  this.currentScene = newScene;
-  this._app.stage.addChild(this.currentScene);
-  this.currentScene.resize(this.DESIGN_W, this.DESIGN_H);
-}
 
+  /** Removes a scene from stage; every scene except the shared LoadingScene is cleaned up and destroyed. */
+  private static retireScene(scene: IScene): void {
+    this._app.stage.removeChild(scene);
+    if (scene === this.loadingScene) return;
 
-  public static resize() {
-    this.currentScene?.resize(this.DESIGN_W, this.DESIGN_H);
-    this.loadingScene?.resize(this.DESIGN_W, this.DESIGN_H);
+    scene.cleanup();
+    scene.destroy({ children: true });
+    AssetLifecycle.release(scene);
+  }
+
+  /**
+   * Updates the logical stage size, relayouts every live scene and re-positions anchored UI.
+   * @param width Logical width (defaults to the current one)
+   * @param height Logical height (defaults to the current one)
+   * @param visibleArea Visible part of the stage; defaults to all of it
+   */
+  public static resize(
+    width: number = this._width,
+    height: number = this._height,
+    visibleArea: Rectangle = new Rectangle(0, 0, width, height),
+  ) {
+    this._width = width;
+    this._height = height;
+    this._visibleArea = visibleArea;
+    SoundManager.setListener(visibleArea.x + visibleArea.width / 2, visibleArea.y + visibleArea.height / 2);
+
+    for (const { scene } of this._stack) {
+      scene.resize(width, height);
+    }
+    this.loadingScene?.resize(width, height);
+    Layout.refresh();
+  }
+
+  /** Scenes that receive `update()` this frame: the top scene plus any below it that opted in. */
+  private static collectUpdatingScenes(): Set<IScene> {
+    const scenes = new Set<IScene>();
+    if (this._outgoingScene) scenes.add(this._outgoingScene);
+
+    if (this._loadingActive) {
+      scenes.add(this.loadingScene);
+      return scenes;
+    }
+
+    for (let i = this._stack.length - 1; i >= 0; i--) {
+      scenes.add(this._stack[i].scene);
+      if (!this._stack[i].options.updateBelow) break;
+    }
+    return scenes;
   }
 
   private static update(ticker: Ticker) {
-    this.currentScene?.update(ticker.deltaTime);
-    this.loadingScene?.update(ticker.deltaTime);
+    if (this.paused) return;
+
+    const scenes = this.collectUpdatingScenes();
+    const alpha = this.stepFixed(scenes, ticker.deltaMS / 1000);
+    for (const scene of scenes) {
+      scene.update(ticker.deltaTime, alpha);
+    }
+  }
+
+  /**
+   * Advances `fixedUpdate` scenes in whole fixed steps and returns the interpolation alpha.
+   * Backlog beyond `maxStepsPerFrame` is dropped so a slow frame can't snowball.
+   */
+  private static stepFixed(scenes: Set<IScene>, elapsed: number): number {
+    const step = 1 / config.simulation.fixedStepRate;
+    this._fixedAccumulator += elapsed;
+
+    let steps = 0;
+    while (this._fixedAccumulator >= step) {
+      if (steps >= config.simulation.maxStepsPerFrame) {
+        this._fixedAccumulator = 0;
+        break;
+      }
+      for (const scene of scenes) {
+        scene.fixedUpdate?.(step);
+      }
+      this._fixedAccumulator -= step;
+      steps++;
+    }
+
+    return this._fixedAccumulator / step;
   }
 
   /**
@@ -122,14 +698,30 @@ public static async changeScene(
       // ignore
     }
 
-    if (this.currentScene) {
-      try { this.currentScene.cleanup(); } catch (e) {}
-      try { this.currentScene.destroy({ children: true }); } catch (e) {}
-      this.currentScene = undefined;
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    window.removeEventListener('blur', this.onWindowBlur);
+    window.removeEventListener('focus', this.onWindowFocus);
+    this._unsubscribeConfig?.();
+    this._unsubscribeConfig = undefined;
+    this._pauseReasons.clear();
+    this._pausedScenes.clear();
+    gsap.globalTimeline.resume();
+    SoundManager.setSuspended(false);
+
+    const scenes = this._stack.splice(0).map(entry => entry.scene).reverse();
+    if (this._outgoingScene && !scenes.includes(this._outgoingScene)) {
+      scenes.push(this._outgoingScene);
     }
+    for (const scene of scenes) {
+      if (scene === this.loadingScene) continue;
+      try { scene.cleanup(); } catch (e) {}
+      try { scene.destroy({ children: true }); } catch (e) {}
+      AssetLifecycle.release(scene);
+    }
+    this._outgoingScene = undefined;
 
     if (this.loadingScene) {
       try { this.loadingScene.destroy({ children: true }); } catch (e) {}
     }
   }
-}
\ No newline at end of file
+}
@@ -1,77 +1,522 @@
-import { Howl, Howler } from 'howler';
+import { Howl, Howler, type HowlOptions } from 'howler';
+import { gsap } from 'gsap';
+import { Container, Point, type PointData } from 'pixi.js';
+import { Preferences, type PreferenceKey, type PreferenceValues } from './Preferences';
+import { config } from './config';
+import { AudioUnlock } from './AudioUnlock';
+
+/** Mixing groups with their own volume and mute; every sound belongs to one. */
+export type SoundCategory = 'music' | 'sfx' | 'ui' | 'voice';
+
+export const SOUND_CATEGORIES: readonly SoundCategory[] = ['music', 'sfx', 'ui', 'voice'];
+
+/**
+ * Where a sound comes from: a display object (followed every frame) or a fixed point,
+ * both in global (stage) coordinates.
+ */
+export type SoundEmitter = Container | PointData;
+
+export interface SoundLoadOptions extends Partial<HowlOptions> {
+  /** Category whose volume and mute apply to the sound. Default 'sfx'. */
+  category?: SoundCategory;
+  /** Most instances of the sound playing at once; the oldest is cut to start a new one. Default unlimited. */
+  maxVoices?: number;
+  /** Lower the music while the sound plays. Default true for 'voice', false otherwise. */
+  ducksMusic?: boolean;
+}
+
+export interface PlayOptions {
+  /** Volume of this instance (0-1), on top of the sound's and its category's volume. Default 1. */
+  volume?: number;
+  /** Playback rate (0.5-4). Default 1. */
+  rate?: number;
+  /** Stereo pan from -1 (left) to 1 (right). Default 0. */
+  pan?: number;
+  /** Loop this instance. Defaults to the sound's `loop` option. */
+  loop?: boolean;
+  /** Pan and attenuate this instance by the emitter's position relative to the listener. Overrides `pan`. */
+  emitter?: SoundEmitter;
+}
+
+/**
+ * Audio sprite manifest: one audio file (in several formats) holding named regions.
+ * Loaded from `*.audiosprite.json` files by the `load-audio` asset parser.
+ */
+export interface AudioSpriteData {
+  /** Audio file URLs, one per format, in fallback order. */
+  src: string[];
+  /** Regions by name: `[offset ms, duration ms, loop?]`. */
+  sprite: Record<string, [number, number] | [number, number, boolean]>;
+}
+
+interface SoundEntry {
+  howl: Howl;
+  /** Region of an audio sprite; undefined for whole-file sounds. */
+  sprite?: string;
+  category: SoundCategory;
+  /** Volume set for the sound itself, before its category's volume is applied. */
+  volume: number;
+  maxVoices: number;
+  ducksMusic: boolean;
+  /** Emitter for instances played without one (see `SoundManager.attach`). */
+  emitter?: SoundEmitter;
+  /** Playing or paused instances, oldest first. */
+  voices: SoundHandle[];
+}
+
+/** A single playing instance of a sound, returned by `SoundManager.play`. */
+export class SoundHandle {
+  readonly id: number;
+  private _howl: Howl;
+  private _volume: number;
+  /** Sound and category volume applied on top of the instance volume. */
+  private _gain: () => number;
+  private _ended = false;
+  private _fade?: gsap.core.Tween;
+  /** Distance attenuation from the emitter (1 without one). */
+  private _spatialGain = 1;
+  private _pan = 0;
+  /** @internal Called once when the instance stops or finishes. */
+  onEnd?: () => void;
+  /** @internal Emitter of this instance, if played with one. */
+  emitter?: SoundEmitter;
+
+  constructor(howl: Howl, id: number, volume: number, gain: () => number) {
+    this._howl = howl;
+    this.id = id;
+    this._volume = volume;
+    this._gain = gain;
+  }
+
+  /** True while the instance is audible (not paused, stopped or finished). */
+  get playing(): boolean {
+    return !this._ended && this._howl.playing(this.id);
+  }
+
+  /** True once the instance has been stopped or has finished. */
+  get ended(): boolean {
+    return this._ended;
+  }
+
+  get volume(): number {
+    return this._volume;
+  }
+
+  /** Sets the instance volume, cancelling a running fade. */
+  setVolume(volume: number): void {
+    this._fade?.kill();
+    this._volume = volume;
+    this.applyVolume();
+  }
+
+  setRate(rate: number): void {
+    this._howl.rate(rate, this.id);
+  }
+
+  /** @param pan - Stereo pan from -1 (left) to 1 (right) */
+  setPan(pan: number): void {
+    this._pan = pan;
+    this._howl.stereo(pan, this.id);
+  }
+
+  setLoop(loop: boolean): void {
+    this._howl.loop(loop, this.id);
+  }
+
+  pause(): void {
+    if (!this._ended) this._howl.pause(this.id);
+  }
+
+  /** Continues a paused instance. Does nothing if it is playing or has ended. */
+  resume(): void {
+    if (!this._ended && !this._howl.playing(this.id)) {
+      this._howl.play(this.id);
+    }
+  }
+
+  stop(): void {
+    if (!this._ended) this._howl.stop(this.id);
+    this.markEnded();
+  }
+
+  /**
+   * Fades the instance volume. The fade is driven by SoundManager, not by a scene,
+   * so it keeps running after the scene that started it is destroyed.
+   * Sound, category and ducking volume changes keep applying during the fade.
+   * @param volume - Target instance volume (0-1)
+   * @param duration - Fade duration in ms
+   * @returns Resolves when the fade completes or is replaced by another fade
+   */
+  fade(volume: number, duration: number): Promise<void> {
+    this._fade?.kill();
+    if (this._ended || duration <= 0) {
+      this.setVolume(volume);
+      return Promise.resolve();
+    }
+
+    const state = { volume: this._volume };
+    return new Promise((resolve) => {
+      this._fade = gsap.to(state, {
+        volume,
+        duration: duration / 1000,
+        ease: 'none',
+        onUpdate: () => {
+          this._volume = state.volume;
+          this.applyVolume();
+        },
+        onComplete: resolve,
+        onInterrupt: resolve,
+      });
+    });
+  }
+
+  /** @internal Re-applies the volume after the sound's or category's volume changed. */
+  applyVolume(): void {
+    if (!this._ended) this._howl.volume(this._volume * this._gain() * this._spatialGain, this.id);
+  }
+
+  /**
+   * @internal Applies the pan and attenuation computed from the emitter's position.
+   * Skips Howler calls for changes too small to hear.
+   */
+  setSpatial(pan: number, gain: number): void {
+    if (this._ended) return;
+    if (Math.abs(pan - this._pan) > 0.01) {
+      this.setPan(pan);
+    }
+    if (Math.abs(gain - this._spatialGain) > 0.01) {
+      this._spatialGain = gain;
+      this.applyVolume();
+    }
+  }
+
+  /** @internal Called by SoundManager when Howler reports the instance stopped or finished. */
+  markEnded(): void {
+    if (this._ended) return;
+    this._ended = true;
+    this._fade?.kill();
+    this.onEnd?.();
+  }
+}
+
+interface CategoryState {
+  volume: number;
+  muted: boolean;
+}
+
+interface PendingPlay {
+  key: string;
+  options: PlayOptions;
+  /** `performance.now()` of the request. */
+  time: number;
+}
+
+interface MusicTrack {
+  key: string;
+  handle: SoundHandle;
+}
 
 /**
  * Manages game audio using Howler.js.
  * Provides methods to play, stop, and control looping sounds.
+ * A sound's output volume is its own volume x its category's volume x the master volume.
+ * Mute and volumes are stored in Preferences, so they persist and every MuteButton stays in sync.
+ * One music track plays at a time (`playMusic` crossfades) and is ducked while ducking sounds play.
+ * Until the browser allows audio (see AudioUnlock), plays are queued and started on unlock.
  */
 class SoundManagerClass {
-  private _sounds: Map<string, Howl> = new Map();
+  private _sounds: Map<string, SoundEntry> = new Map();
+  /** Howls of audio sprites, by the key they were loaded under. */
+  private _spriteSheets: Map<string, Howl> = new Map();
+  private _categories: Record<SoundCategory, CategoryState> = {
+    music: { volume: 1, muted: false },
+    sfx: { volume: 1, muted: false },
+    ui: { volume: 1, muted: false },
+    voice: { volume: 1, muted: false },
+  };
   private _muted: boolean = false;
+  private _suspended: boolean = false;
+  private _music?: MusicTrack;
+  /** Playing instances of sounds with `ducksMusic`. */
+  private _duckers: Set<SoundHandle> = new Set();
+  /** Extra gain on the music category: 1, or `config.sound.duckLevel` while ducked. */
+  private _duck = { level: 1 };
+  private _nextKeyId = 0;
+  /** Point sounds are heard from, in global (stage) coordinates. */
+  private _listener = new Point();
+  private _spatialActive = false;
+  /** Plays requested while audio is locked. */
+  private _pendingPlays: PendingPlay[] = [];
+  /** Music track requested while audio is locked. */
+  private _pendingMusic?: string;
+  private _emitterPosition = new Point();
+
+  constructor() {
+    Preferences.subscribe((key, values) => this.applyPreference(key, values));
+    AudioUnlock.subscribe((locked) => {
+      if (!locked) this.flushPending();
+    });
+  }
+
+  /**
+   * Returns a key no other sound uses, for sounds owned by one scene instance: a replacement
+   * scene can load its copy while the old scene's copy is still fading out.
+   * @param base - Readable prefix, e.g. the sound name
+   */
+  uniqueKey(base: string): string {
+    return `${base}#${++this._nextKeyId}`;
+  }
 
   /**
    * Loads a sound with the given key.
    * @param key - Unique identifier for the sound
    * @param src - Array of source URLs (for format fallback)
-   * @param options - Additional Howl options
+   * @param options - Additional Howl options and the sound's category
    */
-  load(key: string, src: string[], options: Partial<HowlOptions> = {}): Howl {
-    const sound = new Howl({
-      src,
-      ...options,
+  load(key: string, src: string[], options: SoundLoadOptions = {}): Howl {
+    const { category = 'sfx', volume = 1, maxVoices = Infinity, ducksMusic = category === 'voice', ...howlOptions } = options;
+    const howl = this.createHowl({ src, ...howlOptions, volume: volume * this.categoryGain(category) });
+    this._sounds.set(key, { howl, category, volume, maxVoices, ducksMusic, voices: [] });
+    return howl;
+  }
+
+  /**
+   * Loads an audio sprite. Each region is played as `<key>.<region>` and shares the
+   * load options (category, volume, voice limit, ducking).
+   * @param key - Unique identifier for the sprite
+   * @param data - Sprite manifest, e.g. `Assets.get` of a `*.audiosprite.json` asset
+   * @param options - Additional Howl options and the regions' category
+   */
+  loadSprite(key: string, data: AudioSpriteData, options: SoundLoadOptions = {}): Howl {
+    const { category = 'sfx', volume = 1, maxVoices = Infinity, ducksMusic = category === 'voice', ...howlOptions } = options;
+    const howl = this.createHowl({
+      ...howlOptions,
+      src: data.src,
+      sprite: data.sprite,
+      volume: volume * this.categoryGain(category),
     });
-    this._sounds.set(key, sound);
-    return sound;
+
+    this._spriteSheets.set(key, howl);
+    for (const region of Object.keys(data.sprite)) {
+      this._sounds.set(`${key}.${region}`, { howl, sprite: region, category, volume, maxVoices, ducksMusic, voices: [] });
+    }
+    return howl;
   }
 
   /**
-   * Plays a loaded sound by key.
-   * @param key - The sound identifier
-   * @returns The sound ID or undefined if not found
+   * Plays a new instance of a loaded sound by key. Instances overlap; when the sound's
+   * `maxVoices` are all in use, the oldest instance is stopped first.
+   * @param key - The sound identifier (`<key>.<region>` for sprite regions)
+   * @param options - Settings for this instance
+   * @returns A handle controlling the instance, or undefined if not found or queued
+   *   because audio is still locked
    */
-  play(key: string): number | undefined {
-    const sound = this._sounds.get(key);
-    return sound?.play();
+  play(key: string, options: PlayOptions = {}): SoundHandle | undefined {
+    const entry = this._sounds.get(key);
+    if (!entry) return undefined;
+
+    if (AudioUnlock.locked) {
+      this._pendingPlays.push({ key, options, time: performance.now() });
+      return undefined;
+    }
+
+    entry.voices = entry.voices.filter(voice => !voice.ended);
+    while (entry.voices.length > 0 && entry.voices.length >= entry.maxVoices) {
+      entry.voices.shift()!.stop();
+    }
+
+    const id = entry.howl.play(entry.sprite);
+    const handle = new SoundHandle(entry.howl, id, options.volume ?? 1, () => entry.volume * this.categoryGain(entry.category));
+    handle.applyVolume();
+    if (options.rate !== undefined) handle.setRate(options.rate);
+    if (options.pan !== undefined) handle.setPan(options.pan);
+    if (options.loop !== undefined) handle.setLoop(options.loop);
+    if (options.emitter) {
+      handle.emitter = options.emitter;
+      this.startSpatial();
+    }
+    this.updateVoiceSpatial(handle, handle.emitter ?? entry.emitter);
+
+    if (entry.ducksMusic) {
+      this._duckers.add(handle);
+      handle.onEnd = () => {
+        this._duckers.delete(handle);
+        this.updateDuck();
+      };
+      this.updateDuck();
+    }
+
+    entry.voices.push(handle);
+    return handle;
   }
 
   /**
-   * Stops a sound by key.
+   * Makes a loaded sound the music track, crossfading from the current one.
+   * Does nothing if the sound is already the playing track.
+   * @param key - The sound identifier; load it with category 'music'
+   * @param fadeDuration - Crossfade duration in ms
+   */
+  playMusic(key: string, fadeDuration: number = config.sound.musicCrossfade): void {
+    if (AudioUnlock.locked) {
+      this._pendingMusic = key;
+      return;
+    }
+    if (this._music?.key === key && !this._music.handle.ended) return;
+
+    this.stopMusic(fadeDuration);
+    const handle = this.play(key, { volume: 0, loop: true });
+    if (!handle) return;
+
+    void handle.fade(1, fadeDuration);
+    this._music = { key, handle };
+  }
+
+  /**
+   * Fades out and stops the music track.
+   * @param fadeDuration - Fade duration in ms
+   */
+  stopMusic(fadeDuration: number = config.sound.musicCrossfade): void {
+    this._pendingMusic = undefined;
+    const music = this._music;
+    if (!music) return;
+
+    this._music = undefined;
+    void music.handle.fade(0, fadeDuration).then(() => music.handle.stop());
+  }
+
+  /** Key of the current (or, while audio is locked, requested) music track, if any. */
+  get currentMusic(): string | undefined {
+    return this._pendingMusic ?? this._music?.key;
+  }
+  /**
+   * Stops every instance of a sound by key.
    * @param key - The sound identifier
    */
   stop(key: string): void {
-    this._sounds.get(key)?.stop();
+    this.voices(key).forEach(voice => voice.stop());
   }
 
   /**
-   * Fades out and stops a sound.
+   * Pauses every instance of a sound by key; `resume` continues them from the same position.
+   * @param key - The sound identifier
+   */
+  pause(key: string): void {
+    this.voices(key).forEach(voice => voice.pause());
+  }
+
+  /**
+   * Resumes paused instances of a sound by key. Instances already playing are left alone.
+   * @param key - The sound identifier
+   */
+  resume(key: string): void {
+    this.voices(key).forEach(voice => voice.resume());
+  }
+
+  /**
+   * Fades out and stops every instance of a sound.
    * @param key - The sound identifier
    * @param duration - Fade duration in ms
    */
   fadeOut(key: string, duration: number = 500): void {
-    const sound = this._sounds.get(key);
-    if (sound) {
-      sound.fade(sound.volume(), 0, duration);
-      sound.once('fade', () => sound.stop());
+    for (const voice of this.voices(key)) {
+      void voice.fade(0, duration).then(() => voice.stop());
     }
   }
 
   /**
-   * Sets the volume for a sound.
+   * Sets the volume for a sound; its category's volume still applies on top.
    * @param key - The sound identifier
    * @param volume - Volume level (0.0 to 1.0)
    */
   setVolume(key: string, volume: number): void {
-    this._sounds.get(key)?.volume(volume);
+    const entry = this._sounds.get(key);
+    if (entry) {
+      entry.volume = volume;
+      this.applyVolume(entry);
+    }
   }
 
   /**
-   * Unloads a sound and removes it from the manager.
+   * Makes every instance of a sound, playing and future, follow an emitter: stereo pan
+   * follows its x offset from the listener and volume falls off with its distance.
+   * Instances played with their own `emitter` keep it.
    * @param key - The sound identifier
+   * @param emitter - Display object or fixed point; null centers the sound again
+   */
+  attach(key: string, emitter: SoundEmitter | null): void {
+    const entry = this._sounds.get(key);
+    if (!entry) return;
+
+    entry.emitter = emitter ?? undefined;
+    if (emitter) {
+      this.startSpatial();
+    } else {
+      entry.voices.filter(voice => !voice.emitter).forEach(voice => voice.setSpatial(0, 1));
+    }
+  }
+
+  /**
+   * Sets the point sounds with emitters are heard from. SceneManager keeps it at the
+   * center of the visible area.
+   * @param x - Global (stage) x
+   * @param y - Global (stage) y
+   */
+  setListener(x: number, y: number): void {
+    this._listener.set(x, y);
+  }
+
+  /**
+   * Fades out every instance of a sound, then unloads it. The key is released immediately,
+   * so the sound can be loaded again (e.g. by a reopened scene) while the old one fades.
+   * @param key - The sound identifier, or the key an audio sprite was loaded under
+   * @param duration - Fade duration in ms
+   */
+  async fadeOutAndUnload(key: string, duration: number = 500): Promise<void> {
+    const howl = this._spriteSheets.get(key) ?? this._sounds.get(key)?.howl;
+    if (!howl) return;
+
+    const voices: SoundHandle[] = [];
+    this._spriteSheets.delete(key);
+    for (const [soundKey, entry] of this._sounds) {
+      if (entry.howl === howl) {
+        voices.push(...entry.voices.filter(voice => !voice.ended));
+        this._sounds.delete(soundKey);
+      }
+    }
+    if (this._music && voices.includes(this._music.handle)) {
+      this._music = undefined;
+    }
+
+    await Promise.all(voices.map(voice => voice.fade(0, duration)));
+    voices.forEach(voice => voice.markEnded());
+    howl.unload();
+  }
+
+  /**
+   * Changes how many instances of a sound may play at once. Applies to the next `play`.
+   * @param key - The sound identifier
+   * @param maxVoices - Instance limit
+   */
+  setMaxVoices(key: string, maxVoices: number): void {
+    const entry = this._sounds.get(key);
+    if (entry) entry.maxVoices = maxVoices;
+  }
+
+  /**
+   * Unloads a sound (or a whole audio sprite) and removes it from the manager.
+   * @param key - The sound identifier, or the key an audio sprite was loaded under
    */
   unload(key: string): void {
-    const sound = this._sounds.get(key);
-    if (sound) {
-      sound.unload();
-      this._sounds.delete(key);
+    const howl = this._spriteSheets.get(key) ?? this._sounds.get(key)?.howl;
+    if (!howl) return;
+
+    howl.unload();
+    this._spriteSheets.delete(key);
+    for (const [soundKey, entry] of this._sounds) {
+      if (entry.howl === howl) {
+        entry.voices.forEach(voice => voice.markEnded());
+        this._sounds.delete(soundKey);
+      }
     }
   }
 
@@ -80,34 +525,213 @@ class SoundManagerClass {
    * @param key - The sound identifier
    */
   get(key: string): Howl | undefined {
-    return this._sounds.get(key);
+    return this._sounds.get(key)?.howl;
+  }
+
+  /** Master volume (0-1) applied to every sound. */
+  get masterVolume(): number {
+    return Howler.volume();
+  }
+
+  /**
+   * Sets the master volume applied to every sound.
+   * @param volume - Volume level (0.0 to 1.0)
+   */
+  setMasterVolume(volume: number): void {
+    Preferences.set('masterVolume', volume);
+  }
+
+  /** Returns a category's volume (0-1). */
+  getCategoryVolume(category: SoundCategory): number {
+    return this._categories[category].volume;
+  }
+
+  /**
+   * Sets the volume of every sound in a category.
+   * @param category - The category
+   * @param volume - Volume level (0.0 to 1.0)
+   */
+  setCategoryVolume(category: SoundCategory, volume: number): void {
+    Preferences.set('volumes', { ...Preferences.get('volumes'), [category]: volume });
+  }
+
+  /** Returns true if a category is muted. */
+  isCategoryMuted(category: SoundCategory): boolean {
+    return this._categories[category].muted;
+  }
+
+  /**
+   * Mutes or unmutes every sound in a category, independently of the global mute.
+   * @param category - The category
+   * @param muted - New mute state
+   */
+  setCategoryMuted(category: SoundCategory, muted: boolean): void {
+    Preferences.set('mutedCategories', { ...Preferences.get('mutedCategories'), [category]: muted });
   }
 
   /** Toggles global mute state. */
   toggleMute(): boolean {
-    this._muted = !this._muted;
-    Howler.mute(this._muted);
+    this.setMuted(!this._muted);
     return this._muted;
   }
 
   /** Sets global mute state. */
   setMuted(muted: boolean): void {
-    this._muted = muted;
-    Howler.mute(this._muted);
+    Preferences.set('muted', muted);
   }
 
   /** Returns current mute state. */
   get muted(): boolean {
     return this._muted;
   }
-}
 
-interface HowlOptions {
-  src: string[];
-  loop?: boolean;
-  volume?: number;
-  autoplay?: boolean;
-  preload?: boolean;
+  /**
+   * Silences all audio while the app is paused, without touching the user's mute choice.
+   * @param suspended - True while the app is paused
+   */
+  setSuspended(suspended: boolean): void {
+    this._suspended = suspended;
+    this.applyMute();
+  }
+
+  /** Applies audio preferences when they are restored or changed. */
+  private applyPreference(key: PreferenceKey, values: Readonly<PreferenceValues>): void {
+    if (key === 'muted') {
+      this._muted = values.muted;
+      this.applyMute();
+    } else if (key === 'masterVolume') {
+      Howler.volume(values.masterVolume);
+    } else if (key === 'volumes') {
+      for (const category of SOUND_CATEGORIES) {
+        this._categories[category].volume = values.volumes[category];
+        this.applyCategory(category);
+      }
+    } else if (key === 'mutedCategories') {
+      for (const category of SOUND_CATEGORIES) {
+        this._categories[category].muted = values.mutedCategories[category];
+        this.applyCategory(category);
+      }
+    }
+  }
+
+  private applyMute(): void {
+    Howler.mute(this._muted || this._suspended);
+  }
+
+  private categoryGain(category: SoundCategory): number {
+    const state = this._categories[category];
+    if (state.muted) return 0;
+    return category === 'music' ? state.volume * this._duck.level : state.volume;
+  }
+
+  /** Eases music down while any ducking sound plays, and back up once none do. */
+  private updateDuck(): void {
+    const level = this._duckers.size > 0 ? config.sound.duckLevel : 1;
+    gsap.killTweensOf(this._duck);
+    gsap.to(this._duck, {
+      level,
+      duration: config.sound.duckFadeDuration / 1000,
+      ease: 'none',
+      onUpdate: () => this.applyCategory('music'),
+    });
+  }
+
+  private applyCategory(category: SoundCategory): void {
+    for (const entry of this._sounds.values()) {
+      if (entry.category === category) {
+        this.applyVolume(entry);
+      }
+    }
+  }
+
+  /**
+   * Starts what was requested while audio was locked: the music track, looping sounds, and
+   * one-shots recent enough (`config.sound.unlockQueueMaxAge`) to still make sense.
+   * Sounds unloaded meanwhile are skipped.
+   */
+  private flushPending(): void {
+    const now = performance.now();
+    const pending = this._pendingPlays.splice(0);
+    for (const { key, options, time } of pending) {
+      const entry = this._sounds.get(key);
+      const loops = options.loop ?? entry?.howl.loop();
+      if (loops || now - time <= config.sound.unlockQueueMaxAge) {
+        this.play(key, options);
+      }
+    }
+
+    const music = this._pendingMusic;
+    this._pendingMusic = undefined;
+    if (music && this._sounds.has(music)) {
+      this.playMusic(music);
+    }
+  }
+
+  /** Starts updating emitter-following sounds every frame; stays on once needed. */
+  private startSpatial(): void {
+    if (this._spatialActive) return;
+    this._spatialActive = true;
+    gsap.ticker.add(this.updateSpatial);
+  }
+
+  private updateSpatial = (): void => {
+    for (const entry of this._sounds.values()) {
+      for (const voice of entry.voices) {
+        this.updateVoiceSpatial(voice, voice.emitter ?? entry.emitter);
+      }
+    }
+  };
+
+  /**
+   * Pans by the emitter's horizontal offset from the listener (full pan at `spatialPanRange`)
+   * and fades linearly from full volume at `spatialRefDistance` to `spatialMinVolume` at `spatialMaxDistance`.
+   */
+  private updateVoiceSpatial(voice: SoundHandle, emitter: SoundEmitter | undefined): void {
+    if (!emitter || voice.ended) return;
+
+    let position: PointData = emitter;
+    if (emitter instanceof Container) {
+      // Keep the last pan/volume once the followed object is gone
+      if (emitter.destroyed) return;
+      position = emitter.getGlobalPosition(this._emitterPosition);
+    }
+
+    const { spatialPanRange, spatialRefDistance, spatialMaxDistance, spatialMinVolume } = config.sound;
+    const dx = position.x - this._listener.x;
+    const dy = position.y - this._listener.y;
+    const pan = Math.max(-1, Math.min(1, dx / spatialPanRange));
+    const falloff = (Math.hypot(dx, dy) - spatialRefDistance) / Math.max(1, spatialMaxDistance - spatialRefDistance);
+    const gain = 1 - Math.max(0, Math.min(1, falloff)) * (1 - spatialMinVolume);
+    voice.setSpatial(pan, gain);
+  }
+
+  private applyVolume(entry: SoundEntry): void {
+    entry.voices.forEach(voice => voice.applyVolume());
+  }
+
+  /** Live instances of a sound. */
+  private voices(key: string): SoundHandle[] {
+    const entry = this._sounds.get(key);
+    if (!entry) return [];
+    entry.voices = entry.voices.filter(voice => !voice.ended);
+    return [...entry.voices];
+  }
+
+  /** Creates a Howl whose finished and stopped instances are dropped from their sound's voices. */
+  private createHowl(options: HowlOptions): Howl {
+    const howl = new Howl(options);
+    const onEnded = (id: number, finished: boolean) => {
+      for (const entry of this._sounds.values()) {
+        if (entry.howl !== howl) continue;
+        // 'end' also fires at each loop boundary; looping instances keep playing
+        const voice = entry.voices.find(v => v.id === id);
+        if (voice && !(finished && howl.loop(id))) voice.markEnded();
+      }
+    };
+    howl.on('end', (id) => onEnded(id, true));
+    howl.on('stop', (id) => onEnded(id, false));
+    return howl;
+  }
 }
 
 export const SoundManager = new SoundManagerClass();
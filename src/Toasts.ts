@@ -0,0 +1,104 @@
+import { Container, type Application } from 'pixi.js';
+import { gsap } from 'gsap';
+import { Layout } from './Layout';
+import { Accessibility } from './Accessibility';
+import { config } from './config';
+import { Toast, type ToastKind } from './ui/Toast';
+
+export interface ToastOptions {
+  /** Tints the toast. Default 'info'. */
+  kind?: ToastKind;
+  /** Time on screen (ms). Defaults to `config.notifications.toastDuration`. */
+  duration?: number;
+}
+
+interface PendingToast {
+  message: string;
+  kind: ToastKind;
+  duration: number;
+}
+
+const SPACING = 10;
+
+/**
+ * Transient messages stacked at the bottom of the safe area, above every scene. Each one
+ * dismisses itself after its duration or when tapped; at most `config.notifications.maxToasts`
+ * show at once and the rest wait their turn. Callable from anywhere once initialised.
+ *
+ * @example
+ * Toasts.show('Sound unavailable', { kind: 'warning' });
+ */
+export class Toasts {
+  private static _layer: Container | null = null;
+  private static _visible: { toast: Toast; timer: gsap.core.Tween }[] = [];
+  private static _queue: PendingToast[] = [];
+
+  public static init(app: Application): void {
+    this._layer = new Container();
+    this._layer.zIndex = 5100;
+    app.stage.sortableChildren = true;
+    app.stage.addChild(this._layer);
+    Layout.anchor(this._layer, { at: 'bottom-center', y: -30 });
+  }
+
+  public static destroy(): void {
+    for (const { timer } of this._visible) timer.kill();
+    this._visible = [];
+    this._queue = [];
+    this._layer?.destroy({ children: true });
+    this._layer = null;
+  }
+
+  /**
+   * Shows a message, or queues it while the stack is full. A message identical to one
+   * already showing or waiting is dropped, so repeated errors do not flood the screen.
+   */
+  public static show(message: string, options: ToastOptions = {}): void {
+    if (!this._layer) return;
+    if (this._visible.some(v => v.toast.message === message) || this._queue.some(p => p.message === message)) return;
+
+    this._queue.push({
+      message,
+      kind: options.kind ?? 'info',
+      duration: options.duration ?? config.notifications.toastDuration,
+    });
+    this.showNext();
+  }
+
+  private static showNext(): void {
+    while (this._layer && this._queue.length > 0 && this._visible.length < config.notifications.maxToasts) {
+      const { message, kind, duration } = this._queue.shift()!;
+
+      const toast = new Toast(message, kind, () => this.dismiss(toast));
+      toast.alpha = 0;
+      this._layer.addChild(toast);
+      gsap.to(toast, { alpha: 1, duration: 0.2 });
+
+      const timer = gsap.delayedCall(duration / 1000, () => this.dismiss(toast));
+      this._visible.push({ toast, timer });
+      Accessibility.announce(message);
+    }
+    this.layout();
+  }
+
+  private static dismiss(toast: Toast): void {
+    const index = this._visible.findIndex(v => v.toast === toast);
+    if (index === -1) return;
+
+    this._visible[index].timer.kill();
+    this._visible.splice(index, 1);
+    toast.eventMode = 'none';
+    gsap.to(toast, { alpha: 0, duration: 0.2, onComplete: () => toast.destroy() });
+    this.showNext();
+  }
+
+  /** Stacks the toasts upward from the anchor, newest at the bottom. */
+  private static layout(): void {
+    let y = 0;
+    for (let i = this._visible.length - 1; i >= 0; i--) {
+      const { toast } = this._visible[i];
+      gsap.to(toast, { y, duration: 0.2, ease: 'power2.out', overwrite: 'auto' });
+      y -= toast.stackHeight + SPACING;
+    }
+  }
+}
@@ -1,5 +1,14 @@
 /**
- * Application configuration - tweak these values to adjust behavior
+ * How the design resolution maps to the browser viewport:
+ * - letterbox: fit the whole design, bars on the sides that don't match
+ * - fill: cover the viewport, cropping the design down to (at most) `display.safeArea`
+ * - expand: fit the design, then extend the logical width or height to the viewport aspect
+ */
+export type ScaleMode = 'letterbox' | 'fill' | 'expand';
+
+/**
+ * Application configuration - tweak these values to adjust behavior.
+ * Not `as const`: ConfigStore writes runtime overrides into this object.
  */
 export const config = {
   /** Design resolution */
@@ -10,8 +19,45 @@ export const config = {
 
   /** Display settings */
   display: {
-    /** Request fullscreen on first user interaction */
+    /** Request fullscreen on first user interaction (default; the user preference is persisted) */
     fullscreen: true,
+    /** Viewport scaling strategy */
+    scaleMode: 'letterbox' as ScaleMode,
+    /** Scale beyond 1:1 and render at devicePixelRatio so upscaled output stays sharp */
+    allowUpscale: false,
+    /** Centered part of the design that 'fill' mode never crops */
+    safeArea: {
+      width: 720,
+      height: 1000,
+    },
+  },
+
+  /** Fixed-timestep simulation (scenes implementing fixedUpdate) */
+  simulation: {
+    /** Fixed steps per second */
+    fixedStepRate: 60,
+    /** Maximum fixed steps run in one frame before the backlog is dropped */
+    maxStepsPerFrame: 5,
+  },
+
+  /** Automatic pause settings */
+  pause: {
+    /** Pause scenes, tweens and audio while the browser tab is hidden */
+    whenHidden: true,
+    /** Pause scenes, tweens and audio while the window does not have focus */
+    whenBlurred: true,
+  },
+
+  /** Developer tools (development builds only) */
+  debug: {
+    /** KeyboardEvent.code that toggles the performance HUD; `?debug` in the URL shows it on start */
+    hudToggleKey: 'Backquote',
+    /** KeyboardEvent.code that toggles the config tuning panel; `?tune` in the URL shows it on start */
+    panelToggleKey: 'KeyT',
+    /** Number of frames shown in the HUD's frame-time graph */
+    graphFrames: 120,
+    /** How often the HUD text is refreshed, in ms */
+    refreshMs: 500,
   },
 
   /** Loading screen settings */
@@ -20,12 +66,53 @@ export const config = {
     minDisplayTime: 500,
   },
 
+  /** Asset bundle lifecycle */
+  assets: {
+    /** Bundles that are never unloaded */
+    keepWarm: ['preload'],
+    /** Idle bundles stay loaded (least recently used evicted first) while estimated texture memory fits this cap (MB) */
+    idleCacheMB: 64,
+  },
+
+  /** Scene transition defaults */
+  transition: {
+    /** Transition duration (seconds) */
+    duration: 0.5,
+    /** Color used by fade-to-color transitions */
+    color: 0x000000,
+  },
+
+  notifications: {
+    /** How long a toast stays on screen (ms) */
+    toastDuration: 3000,
+    /** Toasts shown at once; more wait their turn */
+    maxToasts: 3,
+  },
+
   /** Sound settings */
   sound: {
     /** Default volume for fire loop (0-1) */
     fireLoopVolume: 0.5,
     /** Fade out duration (ms) when leaving scenes */
     fadeOutDuration: 300,
+    /** Explosion sounds playing at once in Seeds; the oldest is cut for a new one */
+    explosionMaxVoices: 3,
+    /** Crossfade (ms) between the music tracks of consecutive scenes */
+    musicCrossfade: 1000,
+    /** Music volume multiplier (0-1) while dialogue or other ducking sounds play */
+    duckLevel: 0.3,
+    /** Duration (ms) of easing music into and out of ducking */
+    duckFadeDuration: 200,
+    /** Horizontal distance from the listener (logical px) at which positioned sounds are fully panned */
+    spatialPanRange: 360,
+    /** Distance (logical px) within which positioned sounds play at full volume */
+    spatialRefDistance: 200,
+    /** Distance (logical px) at which positioned sounds reach `spatialMinVolume` */
+    spatialMaxDistance: 1200,
+    /** Volume multiplier (0-1) of positioned sounds at `spatialMaxDistance` and beyond */
+    spatialMinVolume: 0.3,
+    /** One-shot sounds requested before audio was unlocked are dropped if older than this (ms) */
+    unlockQueueMaxAge: 1000,
   },
 
   /** Phoenix Flame scene settings */
@@ -47,4 +134,6 @@ export const config = {
     /** Delay between each character/element in typewriter effect (seconds) */
     typewriteDelay: 0.03,
   },
-} as const;
+};
+
+export type ConfigSection = keyof typeof config;
@@ -0,0 +1,60 @@
+import type { ConfigSection } from './config';
+
+export interface NumberField {
+  type: 'number';
+  min: number;
+  max: number;
+  /** Slider increment; values are snapped to it */
+  step: number;
+}
+
+export interface BooleanField {
+  type: 'boolean';
+}
+
+export type ConfigField = NumberField | BooleanField;
+
+export type ConfigSchema = { [S in ConfigSection]?: Record<string, ConfigField> };
+
+/**
+ * Tunable config values: their types and valid ranges. Values listed here are validated
+ * when overridden at runtime and shown in the developer tuning panel.
+ */
+export const configSchema: ConfigSchema = {
+  aceOfShadows: {
+    cardMoveDuration: { type: 'number', min: 0.1, max: 5, step: 0.1 },
+    cardMoveDelay: { type: 'number', min: 0, max: 3, step: 0.05 },
+  },
+  magicWords: {
+    typewriteDelay: { type: 'number', min: 0, max: 0.2, step: 0.005 },
+  },
+  phoenixFlame: {
+    particleSpawnInterval: { type: 'number', min: 1, max: 30, step: 1 },
+  },
+  sound: {
+    fireLoopVolume: { type: 'number', min: 0, max: 1, step: 0.05 },
+    fadeOutDuration: { type: 'number', min: 0, max: 2000, step: 50 },
+    explosionMaxVoices: { type: 'number', min: 1, max: 16, step: 1 },
+    musicCrossfade: { type: 'number', min: 0, max: 5000, step: 100 },
+    duckLevel: { type: 'number', min: 0, max: 1, step: 0.05 },
+    duckFadeDuration: { type: 'number', min: 0, max: 1000, step: 50 },
+    spatialPanRange: { type: 'number', min: 50, max: 1000, step: 10 },
+    spatialRefDistance: { type: 'number', min: 0, max: 1000, step: 10 },
+    spatialMaxDistance: { type: 'number', min: 100, max: 3000, step: 50 },
+    spatialMinVolume: { type: 'number', min: 0, max: 1, step: 0.05 },
+  },
+  transition: {
+    duration: { type: 'number', min: 0, max: 2, step: 0.05 },
+  },
+  notifications: {
+    toastDuration: { type: 'number', min: 500, max: 10000, step: 250 },
+    maxToasts: { type: 'number', min: 1, max: 6, step: 1 },
+  },
+  loading: {
+    minDisplayTime: { type: 'number', min: 0, max: 3000, step: 100 },
+  },
+  pause: {
+    whenHidden: { type: 'boolean' },
+    whenBlurred: { type: 'boolean' },
+  },
+};
@@ -1,11 +1,24 @@
-import { Application, Assets, Text, Ticker, extensions, ExtensionType } from 'pixi.js';
+import { Application, Assets, Rectangle, extensions, ExtensionType } from 'pixi.js';
 import { SceneManager } from './SceneManager';
 import { MenuScene } from './scenes/MenuScene';
-import { LoadingScene } from './scenes/LoadingScene';
 import { gsap } from 'gsap';
 import { PixiPlugin } from 'gsap/PixiPlugin';
 import { manifest } from './manifest';
 import { config } from './config';
+import { Router } from './Router';
+import { Layout } from './Layout';
+import { sceneBundleIds } from './sceneRegistry';
+import { PerformanceHud } from './ui/PerformanceHud';
+import { ConfigPanel } from './ui/ConfigPanel';
+import { ConfigStore } from './ConfigStore';
+import { Preferences, type PreferenceKey, type PreferenceValues } from './Preferences';
+import { AudioUnlock } from './AudioUnlock';
+import { FocusManager } from './FocusManager';
+import { Accessibility } from './Accessibility';
+import { Dialogs } from './Dialogs';
+import { Toasts } from './Toasts';
+import { goBack } from './ui/BackButton';
+import type { AudioSpriteData } from './SoundManager';
 
 /** Registers shader file extensions to be loaded as plain text */
 extensions.add({
@@ -15,12 +28,22 @@ extensions.add({
   load: async (url: string) => (await fetch(url)).text(),
 });
 
-/** Registers audio file extensions - returns URL for Howler to load */
+/**
+ * Registers audio file extensions - returns URL for Howler to load.
+ * Audio sprite manifests (`*.audiosprite.json`) return their data with absolute file URLs;
+ * give them `parser: 'load-audio'` in the manifest so the JSON parser does not claim them.
+ */
 extensions.add({
   extension: ExtensionType.LoadParser,
   name: 'load-audio',
-  test: (url: string) => /\.(mp3|webm|ogg|wav)$/i.test(url),
-  load: async (url: string) => url,
+  test: (url: string) => /\.(mp3|webm|ogg|wav)$/i.test(url) || /\.audiosprite\.json$/i.test(url),
+  load: async (url: string): Promise<string | AudioSpriteData> => {
+    if (!/\.json$/i.test(url)) return url;
+
+    const data: AudioSpriteData = await (await fetch(url)).json();
+    const base = new URL(url, location.href);
+    return { ...data, src: data.src.map(src => new URL(src, base).href) };
+  },
 });
 
 gsap.registerPlugin(PixiPlugin);
@@ -33,19 +56,24 @@ const { width: DESIGN_W, height: DESIGN_H } = config.design;
  */
 export class Main {
     private app: Application;
-    private _loadingInterval: ReturnType<typeof setInterval> | null = null;
-    private _loadingTimeout: ReturnType<typeof setTimeout> | null = null;
-    private _fpsTickerCallback: ((ticker: Ticker) => void) | null = null;
+    private _hud: PerformanceHud | null = null;
+    private _configPanel: ConfigPanel | null = null;
+    private _unsubscribePreferences?: () => void;
 
     constructor() {
         this.app = new Application();
     }
 
     /**
-     * Initializes the application with a fixed design resolution (720x1280).
+     * Initializes the application at the design resolution (720x1280).
      * Sets up responsive canvas scaling, assets, scene manager, and event listeners.
      */
     public async init() {
+        ConfigStore.init();
+        Preferences.init();
+        // After Preferences: restoring volume and mute creates Howler's audio context
+        AudioUnlock.init();
+
         await this.app.init({
             width: DESIGN_W,
             height: DESIGN_H,
@@ -60,64 +88,82 @@ export class Main {
         this.app.canvas.style.display = 'block';
         this.app.canvas.style.transformOrigin = 'top left';
 
-        this.createFPSCounter();
+        this.createDevTools();
         await Assets.init({ manifest });
-        SceneManager.init(this.app);
+        SceneManager.init(this.app, { homeScene: () => new MenuScene() });
+        FocusManager.init(this.app, {
+            // Escape / gamepad B leaves the scene, except on the home scene
+            onBack: () => {
+                if (SceneManager.canPop) goBack();
+            },
+        });
+        Accessibility.init(this.app);
+        Dialogs.init(this.app);
+        Toasts.init(this.app);
 
-        this.applyFixedCanvasScale();
-        window.addEventListener('resize', this.applyFixedCanvasScale);
-        window.addEventListener('orientationchange', this.applyFixedCanvasScale);
+        this.applyCanvasScale();
+        window.addEventListener('resize', this.applyCanvasScale);
+        window.addEventListener('orientationchange', this.applyCanvasScale);
 
         if (window.visualViewport) {
-            window.visualViewport.addEventListener('resize', this.applyFixedCanvasScale);
-            window.visualViewport.addEventListener('scroll', this.applyFixedCanvasScale);
+            window.visualViewport.addEventListener('resize', this.applyCanvasScale);
+            window.visualViewport.addEventListener('scroll', this.applyCanvasScale);
         }
 
-        SceneManager.resize();
+        // Fullscreen follows the preference: entered on the first click (browsers require a
+        // user gesture) and whenever the user turns it back on
+        this.setupFullscreen();
 
-        // Request fullscreen on first user interaction (browsers require user gesture)
-        if (config.display.fullscreen) {
-            this.setupFullscreenOnInteraction();
-        }
-
-        // Show loading screen with logo
-        const loadingScene = new LoadingScene();
-        SceneManager.changeScene(loadingScene);
-
-        // Simulate loading progress then transition to menu
-        let progress = 0;
-        this._loadingInterval = setInterval(() => {
-            progress += 0.02 + Math.random() * 0.03;
-            if (progress >= 1) {
-                progress = 1;
-                loadingScene.setProgress(progress);
-                if (this._loadingInterval) {
-                    clearInterval(this._loadingInterval);
-                    this._loadingInterval = null;
-                }
-                this._loadingTimeout = setTimeout(() => {
-                    this._loadingTimeout = null;
-                    SceneManager.changeScene(new MenuScene());
-                }, 500);
-            } else {
-                loadingScene.setProgress(progress);
-            }
-        }, 50);
+        // Preload every bundle behind the loading screen so scenes open instantly from the menu,
+        // then open the scene from the URL hash if this is a deep link
+        Router.start({
+            home: () => new MenuScene(),
+            preload: sceneBundleIds(),
+        });
     }
 
     /**
-     * Scales and centers the canvas to fit the viewport while maintaining aspect ratio.
-     * Uses visual viewport API for proper mobile browser toolbar handling.
-     * Canvas never upscales beyond 1:1 (720x1280) to preserve pixel quality.
+     * Scales and centers the canvas according to `config.display.scaleMode`, resizing the
+     * renderer to the resulting logical size. Uses visual viewport API for proper mobile
+     * browser toolbar handling. Canvas never upscales beyond 1:1 unless `allowUpscale` is set,
+     * in which case the renderer resolution follows devicePixelRatio to stay sharp.
      */
-    private applyFixedCanvasScale = (): void => {
+    private applyCanvasScale = (): void => {
         const vv = window.visualViewport;
         const w = Math.max(1, vv?.width ?? window.innerWidth);
         const h = Math.max(1, vv?.height ?? window.innerHeight);
+        const { scaleMode, allowUpscale, safeArea } = config.display;
+        const maxScale = allowUpscale ? Infinity : 1;
+
+        let logicalW: number = DESIGN_W;
+        let logicalH: number = DESIGN_H;
+        let scale: number;
+
+        switch (scaleMode) {
+            case 'fill': {
+                // Cover the viewport, but never crop into the safe area
+                const cover = Math.max(w / DESIGN_W, h / DESIGN_H);
+                const fitSafe = Math.min(w / safeArea.width, h / safeArea.height);
+                scale = Math.min(cover, fitSafe, maxScale);
+                break;
+            }
+            case 'expand':
+                scale = Math.min(w / DESIGN_W, h / DESIGN_H, maxScale);
+                logicalW = Math.max(DESIGN_W, Math.round(w / scale));
+                logicalH = Math.max(DESIGN_H, Math.round(h / scale));
+                break;
+            default:
+                scale = Math.min(w / DESIGN_W, h / DESIGN_H, maxScale);
+        }
+
+        const resolution = allowUpscale ? Math.max(1, scale * (window.devicePixelRatio || 1)) : 1;
+        const renderer = this.app.renderer;
+        if (renderer.width !== logicalW || renderer.height !== logicalH || renderer.resolution !== resolution) {
+            renderer.resize(logicalW, logicalH, resolution);
+        }
 
-        const scale = Math.min(w / DESIGN_W, h / DESIGN_H, 1);
-        const cssW = Math.round(DESIGN_W * scale);
-        const cssH = Math.round(DESIGN_H * scale);
+        const cssW = Math.round(logicalW * scale);
+        const cssH = Math.round(logicalH * scale);
 
         this.app.canvas.style.width = `${cssW}px`;
         this.app.canvas.style.height = `${cssH}px`;
@@ -130,93 +176,102 @@ export class Main {
         this.app.canvas.style.position = 'absolute';
         this.app.canvas.style.left = `${x}px`;
         this.app.canvas.style.top = `${y}px`;
-    };
 
+        // With 'fill' the canvas may overflow the viewport; report which part is on screen
+        const visibleW = Math.min(logicalW, w / scale);
+        const visibleH = Math.min(logicalH, h / scale);
+        const visibleArea = new Rectangle((logicalW - visibleW) / 2, (logicalH - visibleH) / 2, visibleW, visibleH);
+
+        const area = SceneManager.visibleArea;
+        if (logicalW !== SceneManager.width || logicalH !== SceneManager.height || !area.equals(visibleArea)) {
+            SceneManager.resize(logicalW, logicalH, visibleArea);
+        } else {
+            // Same stage size at a new scale (e.g. rotation with letterbox): insets may still have moved
+            Layout.refresh();
+        }
+    };
 
-    /** Requests fullscreen on first click on canvas (required by browsers). */
-    private setupFullscreenOnInteraction(): void {
+    /** Requests fullscreen on first click on canvas if preferred, and keeps the preference and the real state in sync. */
+    private setupFullscreen(): void {
         // Check if fullscreen is supported
         if (!document.documentElement.requestFullscreen) {
             console.warn('Fullscreen API not supported');
             return;
         }
 
-        const requestFullscreen = () => {
-            if (!document.fullscreenElement) {
-                document.documentElement.requestFullscreen().catch(() => {
-                    // Silently fail - user may have denied or browser blocked it
-                });
-            }
-        };
-
         // Only use click on canvas - most reliable user gesture
-        this.app.canvas.addEventListener('click', requestFullscreen, { once: true });
+        this.app.canvas.addEventListener('click', this.onFirstClick, { once: true });
+        document.addEventListener('fullscreenchange', this.onFullscreenChange);
+        this._unsubscribePreferences = Preferences.subscribe(this.onPreferenceChange);
     }
 
-    /** Creates and displays an FPS counter in the top-left corner of the canvas. */
-    private createFPSCounter() {
-        const fpsText = new Text({
-            text: 'FPS: --',
-            style: {
-                fontFamily: 'monospace',
-                fontSize: 18,
-                fill: '#00ff00',
-                fontWeight: 'bold',
-            }
-        });
+    private onFirstClick = () => {
+        if (Preferences.get('fullscreen')) this.enterFullscreen();
+    };
+
+    private enterFullscreen(): void {
+        if (!document.fullscreenElement) {
+            document.documentElement.requestFullscreen().catch(() => {
+                // Silently fail - user may have denied or browser blocked it
+            });
+        }
+    }
 
-        fpsText.position.set(10, 10);
-        fpsText.zIndex = 10000;
+    /** Turning the preference on or off (e.g. from the menu) enters or leaves fullscreen right away. */
+    private onPreferenceChange = (key: PreferenceKey, values: Readonly<PreferenceValues>) => {
+        if (key !== 'fullscreen') return;
+        if (values.fullscreen) {
+            this.enterFullscreen();
+        } else if (document.fullscreenElement) {
+            document.exitFullscreen().catch(() => {
+                // Already left, e.g. the browser exited fullscreen itself
+            });
+        }
+    };
+
+    /** Entering or leaving fullscreen (e.g. with Escape) is remembered as the user's choice for later visits. */
+    private onFullscreenChange = () => {
+        Preferences.set('fullscreen', document.fullscreenElement !== null);
+    };
+
+    /** Adds the performance HUD and config tuning panel in development builds; production builds never create them. */
+    private createDevTools() {
+        if (import.meta.env.PROD) return;
+
+        this._hud = new PerformanceHud(this.app);
+        this._configPanel = new ConfigPanel();
         this.app.stage.sortableChildren = true;
-        this.app.stage.addChild(fpsText);
-
-        let elapsed = 0;
-        this._fpsTickerCallback = (ticker: Ticker) => {
-            elapsed += ticker.deltaMS;
-            if (elapsed >= 1000) {
-                const fps = this.app.ticker.FPS;
-                fpsText.text = `FPS: ${Math.round(fps)}`;
-                elapsed = 0;
-            }
-        };
-        this.app.ticker.add(this._fpsTickerCallback);
+        this.app.stage.addChild(this._hud, this._configPanel);
     }
 
     /** Cleans up all event listeners, timers, and resources. */
     public destroy(): void {
-        // Clear loading timers
-        if (this._loadingInterval) {
-            clearInterval(this._loadingInterval);
-            this._loadingInterval = null;
-        }
-        if (this._loadingTimeout) {
-            clearTimeout(this._loadingTimeout);
-            this._loadingTimeout = null;
-        }
-
-        // Remove FPS ticker callback
-        if (this._fpsTickerCallback) {
-            this.app.ticker.remove(this._fpsTickerCallback);
-            this._fpsTickerCallback = null;
-        }
+        this._hud?.destroy();
+        this._hud = null;
+        this._configPanel?.destroy();
+        this._configPanel = null;
+
+        this.app.canvas.removeEventListener('click', this.onFirstClick);
+        document.removeEventListener('fullscreenchange', this.onFullscreenChange);
+        this._unsubscribePreferences?.();
+        FocusManager.destroy();
+        Accessibility.destroy();
+        Dialogs.destroy();
+        Toasts.destroy();
 
         // Remove viewport event listeners
-        window.removeEventListener('resize', this.applyFixedCanvasScale);
-        window.removeEventListener('orientationchange', this.applyFixedCanvasScale);
+        window.removeEventListener('resize', this.applyCanvasScale);
+        window.removeEventListener('orientationchange', this.applyCanvasScale);
 
         if (window.visualViewport) {
-            window.visualViewport.removeEventListener('resize', this.applyFixedCanvasScale);
-            window.visualViewport.removeEventListener('scroll', this.applyFixedCanvasScale);
+            window.visualViewport.removeEventListener('resize', this.applyCanvasScale);
+            window.visualViewport.removeEventListener('scroll', this.applyCanvasScale);
         }
 
-        // Destroy the Pixi application
-            // Ensure scenes and ticker are cleaned up before destroying the app
-            try {
-                SceneManager.shutdown();
-            } catch (e) {
-                // ignore
-            }
-            this.app.destroy(true, { children: true, texture: true });
+        // Clean up scenes and routing before destroying the Pixi application
+        Router.destroy();
+        SceneManager.shutdown();
+        this.app.destroy(true, { children: true, texture: true });
     }
 }
 
@@ -66,5 +66,15 @@ export const manifest: AssetsManifest = {
         },
       ],
     },
+    {
+      name: 'seeds',
+      assets: [
+        {
+          alias: 'seeds-sfx',
+          src: 'assets/sfx/seeds.audiosprite.json',
+          parser: 'load-audio',
+        },
+      ],
+    },
   ],
 };
@@ -0,0 +1,78 @@
+import type { IScene } from './SceneManager';
+import { AceOfShadowsScene } from './scenes/AceOfShadowsScene';
+import { MagicWordsScene } from './scenes/MagicWordsScene';
+import { PhoenixFlameScene } from './scenes/PhoenixFlameScene';
+import { SeedsScene } from './scenes/SeedsScene';
+import type { ConfigSection } from './config';
+
+/** Everything the app needs to know about a demo scene. */
+export interface SceneDefinition {
+  /** Unique id; also the URL hash path (`#/<id>`). */
+  id: string;
+  /** Menu button label. */
+  label: string;
+  /** Menu button icon (emoji). */
+  icon: string;
+  /** Menu button background color. */
+  color: number;
+  /** Asset bundles from the manifest the scene needs; empty if it has none. */
+  bundles: string[];
+  /** Creates the scene (called after its bundles load). */
+  create: () => IScene;
+  /** Config section that unqualified query params override, e.g. `?cardMoveDuration=0.5`. */
+  configSection?: ConfigSection;
+  /** Free-form extra information for tooling (descriptions, tags, ...). */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * All demo scenes, in menu order. The menu, router and preloader read this list,
+ * so adding a demo only takes a new entry here.
+ */
+export const sceneRegistry: readonly SceneDefinition[] = [
+  {
+    id: 'ace-of-shadows',
+    label: 'Ace of Shadows',
+    icon: '🃏',
+    color: 0x0f3460,
+    bundles: ['ace-of-shadows'],
+    create: () => new AceOfShadowsScene(),
+    configSection: 'aceOfShadows',
+  },
+  {
+    id: 'magic-words',
+    label: 'Magic Words',
+    icon: '💬',
+    color: 0x533483,
+    bundles: ['magic-words'],
+    create: () => new MagicWordsScene(),
+    configSection: 'magicWords',
+  },
+  {
+    id: 'phoenix-flame',
+    label: 'Phoenix Flame',
+    icon: '🔥',
+    color: 0xe94560,
+    bundles: ['phoenix-flame'],
+    create: () => new PhoenixFlameScene(),
+    configSection: 'phoenixFlame',
+  },
+  {
+    id: 'seeds',
+    label: 'Water Seeds',
+    icon: '💧',
+    color: 0x006994,
+    bundles: ['seeds'],
+    create: () => new SeedsScene(),
+  },
+];
+
+/** Looks up a scene definition by id. */
+export function findScene(id: string): SceneDefinition | undefined {
+  return sceneRegistry.find(scene => scene.id === id);
+}
+
+/** Every bundle used by a registered scene, without duplicates. */
+export function sceneBundleIds(): string[] {
+  return [...new Set(sceneRegistry.flatMap(scene => scene.bundles))];
+}
@@ -3,6 +3,9 @@ import { gsap } from 'gsap';
 import { SceneManager, type IScene } from '../SceneManager';
 import { createBackButton } from '../ui/BackButton';
 import { config } from '../config';
+import type { Button } from '../ui/Button';
+import type { Focusable } from '../FocusManager';
+import type { AccessibleContent } from '../Accessibility';
 
 /**
  * Task 1: "Ace of Shadows"
@@ -18,13 +21,26 @@ export class AceOfShadowsScene extends Container implements IScene {
     private readonly offsetY = 1.5;
     private readonly offsetX = 0.3;
     private timer: gsap.core.Tween | null = null;
+    private bg: Graphics = new Graphics();
+    private table: Graphics = new Graphics();
+    /** Card move timelines still in flight, so they can be paused with the scene. */
+    private moves: Set<gsap.core.Timeline> = new Set();
     private _isRunning = false; 
+    private backButton: Button;
 
     constructor() {
         super();
         this.calculatePositions();
         this.createBackground();
-        this.addChild(createBackButton());
+        this.backButton = this.addChild(createBackButton());
+    }
+
+    public focusOrder(): Focusable[] {
+        return [this.backButton];
+    }
+
+    public accessibleContent(): AccessibleContent {
+        return { heading: 'Ace of Shadows' };
     }
 
     private calculatePositions(): void {
@@ -35,15 +51,19 @@ export class AceOfShadowsScene extends Container implements IScene {
     }
 
     private createBackground(): void {
-        const bg = new Graphics();
-        bg.roundRect(0, 0, SceneManager.width, SceneManager.height, 0);
-        bg.fill(0x1a472a);
-        this.addChild(bg);
-
-        const circle = new Graphics();
-        circle.ellipse(SceneManager.width / 2, SceneManager.height / 2 + 50, 350, 250);
-        circle.fill({ color: 0x2d5a3d, alpha: 0.5 });
-        this.addChild(circle);
+        this.drawBackground();
+        this.addChild(this.bg);
+        this.addChild(this.table);
+    }
+
+    private drawBackground(): void {
+        this.bg.clear();
+        this.bg.roundRect(0, 0, SceneManager.width, SceneManager.height, 0);
+        this.bg.fill(0x1a472a);
+
+        this.table.clear();
+        this.table.ellipse(SceneManager.width / 2, SceneManager.height / 2 + 50, 350, 250);
+        this.table.fill({ color: 0x2d5a3d, alpha: 0.5 });
     }
 
     /** Loads card assets and initializes the stacked layout. */
@@ -101,7 +121,8 @@ export class AceOfShadowsScene extends Container implements IScene {
         const midY = Math.min(card.y, targetY) - 120;
 
         const halfDuration = config.aceOfShadows.cardMoveDuration / 2;
-        const tl = gsap.timeline();
+        const tl = gsap.timeline({ onComplete: () => { this.moves.delete(tl); } });
+        this.moves.add(tl);
 
         tl.to(card, {
             x: midX,
@@ -132,8 +153,31 @@ export class AceOfShadowsScene extends Container implements IScene {
 
     public update(_delta: number): void {}
 
+    /** Holds the deal timer and any cards in flight while the scene is covered or the app is paused. */
+    public pause(): void {
+        this.timer?.pause();
+        this.moves.forEach(tl => tl.pause());
+    }
+
+    public resume(): void {
+        this.timer?.resume();
+        this.moves.forEach(tl => tl.resume());
+    }
+
     public resize(_width: number, _height: number): void {
+        const oldStart = { ...this.startPos };
         this.calculatePositions();
+        this.drawBackground();
+
+        // Move the cards along with the table; cards in flight land first so they don't aim at the old spot
+        const dx = this.startPos.x - oldStart.x;
+        const dy = this.startPos.y - oldStart.y;
+        if (dx === 0 && dy === 0) return;
+
+        [...this.moves].forEach(tl => tl.progress(1));
+        for (const card of this.cards) {
+            card.position.set(card.x + dx, card.y + dy);
+        }
     }
 
     public cleanup(): void {
@@ -142,6 +186,8 @@ export class AceOfShadowsScene extends Container implements IScene {
             this.timer.kill();
             this.timer = null;
         }
+        this.moves.forEach(tl => tl.kill());
+        this.moves.clear();
         this.cards.forEach(c => gsap.killTweensOf(c));
     }
 }
@@ -1,10 +1,18 @@
 import { Container, Graphics, Sprite, Assets, Text } from 'pixi.js';
 import gsap from 'gsap';
 import { SceneManager, type IScene } from '../SceneManager';
+import { AssetLifecycle } from '../AssetLifecycle';
+import { Button } from '../ui/Button';
+import type { Focusable } from '../FocusManager';
+import type { AccessibleContent } from '../Accessibility';
+
+/** What the user picked on the load error screen. */
+export type LoadErrorChoice = 'retry' | 'back';
 
 /**
  * Loading screen with logo and animated progress bar.
- * Shown during initial asset loading.
+ * Shown during initial asset loading. Switches to an error state with
+ * Retry / Back buttons when a bundle fails to load.
  */
 export class LoadingScene extends Container implements IScene {
   private _bg: Graphics;
@@ -14,6 +22,9 @@ export class LoadingScene extends Container implements IScene {
   private _progressText: Text;
   private _barWidth = 400;
   private _barHeight = 8;
+  private _errorContainer: Container | null = null;
+  private _errorButtons: Button[] = [];
+  private _errorMessage: string | null = null;
 
   constructor() {
     super();
@@ -61,8 +72,10 @@ export class LoadingScene extends Container implements IScene {
 
   private async loadLogo(): Promise<void> {
     try {
-      const bundle = await Assets.loadBundle('preload');
-      const logoTexture = bundle['logo'];
+      // Through AssetLifecycle, so the bundle is tracked and kept warm (`config.assets.keepWarm`)
+      await AssetLifecycle.load(['preload']);
+      AssetLifecycle.retain(this, ['preload']);
+      const logoTexture = Assets.get('logo');
 
       this._logo = new Sprite(logoTexture);
       this._logo.anchor.set(0.5);
@@ -114,6 +127,90 @@ export class LoadingScene extends Container implements IScene {
     this._progressText.text = `Loading... ${Math.round(clampedProgress * 100)}%`;
   }
 
+  /**
+   * Replaces the progress bar with an error message listing the failed assets.
+   * Resolves with the user's choice; the progress bar is restored at that point.
+   * @param failedAliases Aliases of the assets that failed to load
+   * @param signal Dismisses the error state (resolving with 'back') when aborted
+   */
+  public showError(failedAliases: string[], signal?: AbortSignal): Promise<LoadErrorChoice> {
+    this.clearError();
+    this.setProgressVisible(false);
+
+    const container = new Container();
+    container.position.set(SceneManager.width / 2, SceneManager.height / 2 + 80);
+    this._errorContainer = container;
+    this.addChild(container);
+
+    const title = new Text({
+      text: 'Failed to load',
+      style: { fontFamily: 'Arial', fontSize: 24, fill: 'white', fontWeight: 'bold' },
+    });
+    title.anchor.set(0.5, 0);
+    container.addChild(title);
+
+    const details = new Text({
+      text: failedAliases.length > 0 ? failedAliases.join('\n') : 'Unknown asset',
+      style: { fontFamily: 'monospace', fontSize: 16, fill: 'white', align: 'center' },
+    });
+    details.anchor.set(0.5, 0);
+    details.position.set(0, 40);
+    container.addChild(details);
+
+    this._errorMessage = `${title.text}: ${details.text.replace(/\n/g, ', ')}`;
+
+    const buttonsY = details.y + details.height + 50;
+
+    return new Promise(resolve => {
+      const choose = (choice: LoadErrorChoice) => {
+        signal?.removeEventListener('abort', onAbort);
+        this.clearError();
+        resolve(choice);
+      };
+      const onAbort = () => choose('back');
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const retry = new Button({ label: 'Retry', color: 0x2a2a2a, hoverColor: 0x444444, onClick: () => choose('retry') });
+      retry.position.set(-90, buttonsY);
+      container.addChild(retry);
+
+      const back = new Button({ label: 'Back to menu', width: 180, color: 0x2a2a2a, hoverColor: 0x444444, onClick: () => choose('back') });
+      back.position.set(100, buttonsY);
+      container.addChild(back);
+      this._errorButtons = [retry, back];
+
+      if (signal?.aborted) onAbort();
+    });
+  }
+
+  /** The Retry and Back buttons while a load error is shown. */
+  public focusOrder(): Focusable[] {
+    return this._errorButtons;
+  }
+
+  /** Announces load errors; progress is left out so screen readers are not flooded. */
+  public accessibleContent(): AccessibleContent {
+    return { heading: 'Loading', live: this._errorMessage ?? undefined };
+  }
+
+  /** Removes the error state (if shown) and brings back the progress bar. */
+  private clearError(): void {
+    if (this._errorContainer) {
+      this.removeChild(this._errorContainer);
+      this._errorContainer.destroy({ children: true });
+      this._errorContainer = null;
+    }
+    this._errorButtons = [];
+    this._errorMessage = null;
+    this.setProgressVisible(true);
+  }
+
+  private setProgressVisible(visible: boolean): void {
+    this._progressBg.visible = visible;
+    this._progressBar.visible = visible;
+    this._progressText.visible = visible;
+  }
+
   public update(_delta: number): void {}
 
   public resize(_width: number, _height: number): void {
@@ -134,6 +231,7 @@ export class LoadingScene extends Container implements IScene {
     if (this._logo) {
       this._logo.position.set(SceneManager.width / 2, SceneManager.height / 2 - 20);
     }
+    this._errorContainer?.position.set(SceneManager.width / 2, SceneManager.height / 2 + 80);
   }
 
   public cleanup(): void {
@@ -147,6 +245,8 @@ export class LoadingScene extends Container implements IScene {
       this._logo = null;
     }
 
+    this.clearError();
+
     // Stop any tweens on progress visuals
     gsap.killTweensOf(this._progressBar);
     gsap.killTweensOf(this._progressBg);
@@ -3,7 +3,12 @@ import gsap from 'gsap';
 import { MixedText } from '../ui/MixedText';
 import { SceneManager, type IScene } from '../SceneManager';
 import { createBackButton } from '../ui/BackButton';
+import { AssetLifecycle } from '../AssetLifecycle';
 import { config } from '../config';
+import { Toasts } from '../Toasts';
+import type { Button } from '../ui/Button';
+import type { Focusable } from '../FocusManager';
+import type { AccessibleContent } from '../Accessibility';
 
 interface EmojiData { name: string; url: string; }
 interface AvatarData { name: string; url: string; position: 'left' | 'right'; }
@@ -21,8 +26,6 @@ export class MagicWordsScene extends Container implements IScene {
   private _currentIndex = 0;
   private _emojiMap: Record<string, string> = {};
   private _avatarMap: Map<string, AvatarData> = new Map();
-  // Keep track of aliases cached into `Assets.cache` so we can remove them on cleanup
-  private _cachedAliases: string[] = [];
   private _isLoaded = false;
   private _emojiPlaceholder: Texture | null = null;
   private _avatarPlaceholder: Texture | null = null;
@@ -36,6 +39,7 @@ export class MagicWordsScene extends Container implements IScene {
   private _textContainer: Container = new Container();
   private _continueText: Text = new Text({ text: 'Click to continue...', style: { fill: '#cccccc', fontSize: 16 } });
   private _currentMixedText: MixedText | null = null;
+  private _backButton: Button | null = null;
 
   private _boxWidth = 660;
   private _boxMinHeight = 200;
@@ -55,7 +59,7 @@ export class MagicWordsScene extends Container implements IScene {
   }
 
   /**
-   * Loads an image from URL into a Pixi Texture and caches it.
+   * Loads an image from URL into a Pixi Texture and caches it for the lifetime of this scene.
    * Handles extensionless URLs (e.g., DiceBear avatars) using fetch → blob → ImageBitmap.
    */
   private async loadTextureToCache(alias: string, url: string): Promise<Texture | null> {
@@ -78,10 +82,9 @@ export class MagicWordsScene extends Container implements IScene {
       bitmap.close();
       // Create texture from canvas (data persists until GPU upload)
       const tex = Texture.from(canvas);
-      Assets.cache.set(alias, tex);
-      this._cachedAliases.push(alias);
+      AssetLifecycle.cacheTexture(this, alias, tex);
 
-      return (Assets.cache.get(alias) as Texture | undefined) ?? null;
+      return tex;
     } catch {
       return null;
     }
@@ -99,14 +102,15 @@ export class MagicWordsScene extends Container implements IScene {
       const data: MagicWordsResponse = await response.json();
       this._dialogueData = data.dialogue;
 
+      const failed: string[] = [];
       for (const e of data.emojies) {
         const alias = `emoji_${e.name}`;
         let tex = await this.loadTextureToCache(alias, e.url);
 
         if (!tex && this._emojiPlaceholder) {
           console.warn(`[MagicWords] Emoji "${e.name}" could not be loaded; using placeholder.`);
-          Assets.cache.set(alias, this._emojiPlaceholder);
-          this._cachedAliases.push(alias);
+          failed.push(e.name);
+          AssetLifecycle.cacheTexture(this, alias, this._emojiPlaceholder, false);
         }
         this._emojiMap[e.name] = alias;
       }
@@ -118,10 +122,14 @@ export class MagicWordsScene extends Container implements IScene {
         let tex = await this.loadTextureToCache(alias, a.url);
         if (!tex && this._avatarPlaceholder) {
           console.warn(`[MagicWords] Avatar "${a.name}" could not be loaded; using placeholder.`);
-          Assets.cache.set(alias, this._avatarPlaceholder);
-          this._cachedAliases.push(alias);
+          AssetLifecycle.cacheTexture(this, alias, this._avatarPlaceholder, false);
+          failed.push(a.name);
         }
       }
+      if (failed.length > 0) {
+        const what = failed.length === 1 ? `image "${failed[0]}"` : `${failed.length} images`;
+        Toasts.show(`Failed to load ${what}; showing placeholders`, { kind: 'warning' });
+      }
 
       this._isLoaded = true;
       this.removeChild(this._loadingText);
@@ -130,12 +138,13 @@ export class MagicWordsScene extends Container implements IScene {
       this.resize(SceneManager.width, SceneManager.height);
     } catch (err) {
       console.error('[MagicWords] Fatal error:', err);
+      Toasts.show('Failed to load the dialogue', { kind: 'error' });
       this._loadingText.text = 'Error loading scene.\nCheck console.';
     }
   }
 
   private createSceneUI(): void {
-    this.addChild(createBackButton());
+    this._backButton = this.addChild(createBackButton());
 
     this._avatarSprite.anchor.set(0.5, 1);
     this._avatarSprite.eventMode = 'none';
@@ -287,6 +296,25 @@ export class MagicWordsScene extends Container implements IScene {
     this.updateAvatarPosition(info);
   }
 
+  /** Leaving mid-conversation loses the place; the dialogue starts over next time. */
+  public get leaveWarning(): string | undefined {
+    return this._isLoaded && this._currentIndex > 0 ? 'The conversation will start over next time.' : undefined;
+  }
+
+  public focusOrder(): Focusable[] {
+    return this._backButton ? [this._backButton] : [];
+  }
+
+  /** The current speaker and line are a live region, so each new line is read out. */
+  public accessibleContent(): AccessibleContent {
+    const line = this._isLoaded ? this._dialogueData[this._currentIndex] : undefined;
+    return {
+      heading: 'Magic Words',
+      text: this._isLoaded ? undefined : [this._loadingText.text],
+      live: line && this._currentMixedText ? `${line.name}: ${this._currentMixedText.altText}` : undefined,
+    };
+  }
+
   public cleanup(): void {
     // Kill animations
     gsap.killTweensOf(this);
@@ -296,21 +324,7 @@ export class MagicWordsScene extends Container implements IScene {
     // Remove pointer listener
     this.off('pointertap', this._onTap);
 
-    // Remove any textures we cached specifically for this scene from Assets.cache
-    try {
-      for (const alias of this._cachedAliases) {
-        if (Assets.cache.has(alias)) {
-          const val = Assets.cache.get(alias) as Texture | undefined;
-          try {
-            if (val && val !== this._emojiPlaceholder && val !== this._avatarPlaceholder) {
-              val.destroy(true);
-            }
-          } catch (e) {}
-          try { (Assets.cache as any).delete?.(alias) ?? ((Assets.cache as any).remove?.(alias)); } catch (e) {}
-        }
-      }
-    } catch (e) {}
-    this._cachedAliases = [];
+    // Textures cached via AssetLifecycle.cacheTexture are released by SceneManager once this scene is retired
 
     this.destroy({ children: true });
   }
@@ -1,39 +1,73 @@
 import { Container, Text, Graphics } from 'pixi.js';
-import { gsap } from 'gsap';
 import { SceneManager, type IScene } from '../SceneManager';
-import { AceOfShadowsScene } from './AceOfShadowsScene';
-import { MagicWordsScene } from './MagicWordsScene';
-import { PhoenixFlameScene } from './PhoenixFlameScene';
-import { SeedsScene } from './SeedsScene';
-
-interface MenuButton {
-  container: Container;
-  bg: Graphics;
-  label: Text;
+import { Router } from '../Router';
+import { sceneRegistry, type SceneDefinition } from '../sceneRegistry';
+import { Button } from '../ui/Button';
+import { List } from '../ui/List';
+import { Toggle } from '../ui/Toggle';
+import { Preferences, type PreferenceKey, type PreferenceValues } from '../Preferences';
+import type { Focusable } from '../FocusManager';
+import type { AccessibleContent } from '../Accessibility';
+
+const BUTTON_WIDTH = 320;
+const BUTTON_HEIGHT = 100;
+const BUTTON_GAP = 20;
+/** Top of the scene list, below the title */
+const LIST_TOP = 230;
+const LIST_MARGIN = 20;
+/** Row of preference toggles below the list */
+const SETTINGS_HEIGHT = 50;
+const SETTINGS_GAP = 40;
+/** Leaves room for the hover scale of the buttons, which the list masks */
+const LIST_WIDTH = BUTTON_WIDTH + 40;
+
+/** Preferences the menu offers as toggles, with their labels. */
+const SETTINGS: { key: 'reducedMotion' | 'fullscreen'; label: string }[] = [
+  { key: 'reducedMotion', label: 'Reduced motion' },
+  { key: 'fullscreen', label: 'Fullscreen' },
+];
+
+/** Mixes a color toward white; used for the hover state of the scene buttons. */
+function lighten(color: number, amount: number): number {
+  const mix = (channel: number) => Math.round(channel + (255 - channel) * amount);
+  return (mix(color >> 16) << 16) | (mix((color >> 8) & 0xff) << 8) | mix(color & 0xff);
 }
 
 export class MenuScene extends Container implements IScene {
-  private _buttons: MenuButton[] = [];
+  private _list!: List<SceneDefinition, Button>;
   private _bg: Graphics = new Graphics();
+  private _gradient: Graphics = new Graphics();
+  private _title!: Text;
+  private _subtitle!: Text;
+  private _settings: Container = new Container();
+  private _toggles: Map<PreferenceKey, Toggle> = new Map();
+  private _unsubscribePreferences: () => void;
 
   constructor() {
     super();
     this.createBackground();
     this.createUI();
+    this.createSettings();
+    this._unsubscribePreferences = Preferences.subscribe(this.onPreferenceChange);
   }
   
   private createBackground(): void {
+    this.drawBackground();
+    this.addChild(this._bg);
+    this.addChild(this._gradient);
+  }
+
+  private drawBackground(): void {
     const w = SceneManager.width;
     const h = SceneManager.height;
 
+    this._bg.clear();
     this._bg.rect(0, 0, w, h);
     this._bg.fill(0x1a1a2e);
-    this.addChild(this._bg);
 
-    const gradient = new Graphics();
-    gradient.ellipse(w / 2, h * 0.3, w * 0.8, h * 0.4);
-    gradient.fill({ color: 0x16213e, alpha: 0.6 });
-    this.addChild(gradient);
+    this._gradient.clear();
+    this._gradient.ellipse(w / 2, h * 0.3, w * 0.8, h * 0.4);
+    this._gradient.fill({ color: 0x16213e, alpha: 0.6 });
   }
 
   private createUI(): void {
@@ -52,6 +86,7 @@ export class MenuScene extends Container implements IScene {
     title.anchor.set(0.5);
     title.position.set(centerX, 120);
     this.addChild(title);
+    this._title = title;
 
     const subtitle = new Text({
       text: 'Technical Assignment',
@@ -64,106 +99,99 @@ export class MenuScene extends Container implements IScene {
     subtitle.anchor.set(0.5);
     subtitle.position.set(centerX, 170);
     this.addChild(subtitle);
-
-    const buttonData = [
-      { label: 'Ace of Shadows', icon: '🃏', color: 0x0f3460, scene: AceOfShadowsScene, bundle: 'ace-of-shadows' },
-      { label: 'Magic Words', icon: '💬', color: 0x533483, scene: MagicWordsScene, bundle: 'magic-words' },
-      { label: 'Phoenix Flame', icon: '🔥', color: 0xe94560, scene: PhoenixFlameScene, bundle: 'phoenix-flame' },
-      { label: 'Water Seeds', icon: '💧', color: 0x006994, scene: SeedsScene, bundle: '' },
-    ];
-
-    const startY = 280;
-    const spacing = 120;
-
-    buttonData.forEach((data, i) => {
-      this.createButton(data.label, data.icon, data.color, startY + i * spacing, () => {
-        SceneManager.changeScene(() => new data.scene(), data.bundle);
-      });
+    this._subtitle = subtitle;
+
+    this._list = new List<SceneDefinition, Button>({
+      width: LIST_WIDTH,
+      height: this.listHeight,
+      rowHeight: BUTTON_HEIGHT,
+      gap: BUTTON_GAP,
+      items: sceneRegistry,
+      createRow: () => new Button({
+        label: '',
+        width: BUTTON_WIDTH,
+        height: BUTTON_HEIGHT,
+        fontSize: 24,
+        borderRadius: 16,
+        onClick: () => {},
+      }),
+      updateRow: (button, scene) => button.setOptions({
+        label: scene.label,
+        icon: scene.icon,
+        color: scene.color,
+        hoverColor: lighten(scene.color, 0.2),
+        onClick: () => {
+          if (SceneManager.isTransitioning) return; // ignore double taps
+          Router.navigate(scene.id);
+        },
+      }),
     });
+    this._list.position.set(centerX - LIST_WIDTH / 2, LIST_TOP);
+    this.addChild(this._list);
   }
 
-  private createButton(label: string, icon: string, color: number, y: number, onClick: () => void): void {
-    const container = new Container();
-    container.position.set(SceneManager.width / 2, y);
-
-    const btnWidth = 320;
-    const btnHeight = 100;
-
-    const bg = new Graphics();
-    bg.roundRect(-btnWidth / 2, -btnHeight / 2, btnWidth, btnHeight, 16);
-    bg.fill({ color, alpha: 0.9 });
-    bg.stroke({ width: 2, color: 0xffffff, alpha: 0.2 });
-    container.addChild(bg);
-
-    const iconText = new Text({
-      text: icon,
-      style: { fontSize: 36 }
-    });
-    iconText.anchor.set(0.5);
-    iconText.position.set(-btnWidth / 2 + 50, 0);
-    container.addChild(iconText);
+  /** A labelled toggle per preference, in one centered row at the bottom. */
+  private createSettings(): void {
+    let x = 0;
+    for (const { key, label } of SETTINGS) {
+      // Browsers without the Fullscreen API (e.g. iPhone Safari) get no fullscreen toggle
+      if (key === 'fullscreen' && !document.documentElement.requestFullscreen) continue;
+
+      const text = new Text({ text: label, style: { fill: '#aaaaaa', fontSize: 18, fontFamily: 'Arial' } });
+      text.anchor.set(0, 0.5);
+      text.x = x;
+      const toggle = new Toggle({
+        value: Preferences.get(key),
+        accessibleLabel: label,
+        onChange: (on) => Preferences.set(key, on),
+      });
+      toggle.x = x + text.width + 10;
+      this._settings.addChild(text, toggle);
+      this._toggles.set(key, toggle);
+      x = toggle.x + toggle.width + SETTINGS_GAP;
+    }
+    this._settings.pivot.x = (x - SETTINGS_GAP) / 2;
+    this.addChild(this._settings);
+    this.positionSettings();
+  }
 
-    const labelText = new Text({
-      text: label,
-      style: {
-        fill: '#ffffff',
-        fontSize: 24,
-        fontWeight: 'bold',
-        fontFamily: 'Arial',
-      }
-    });
-    labelText.anchor.set(0, 0.5);
-    labelText.position.set(-btnWidth / 2 + 90, 0);
-    container.addChild(labelText);
+  private positionSettings(): void {
+    this._settings.position.set(SceneManager.width / 2, SceneManager.height - LIST_MARGIN - SETTINGS_HEIGHT / 2);
+  }
 
-    const arrow = new Text({
-      text: '→',
-      style: {
-        fill: '#ffffff',
-        fontSize: 28,
-        fontFamily: 'Arial',
-      }
-    });
-    arrow.anchor.set(0.5);
-    arrow.position.set(btnWidth / 2 - 30, 0);
-    arrow.alpha = 0.5;
-    container.addChild(arrow);
-
-    container.eventMode = 'static';
-    container.cursor = 'pointer';
-
-    container.on('pointerover', () => {
-      gsap.to(container.scale, { x: 1.05, y: 1.05, duration: 0.2 });
-      gsap.to(arrow, { x: btnWidth / 2 - 20, alpha: 1, duration: 0.2 });
-      bg.clear();
-      bg.roundRect(-btnWidth / 2, -btnHeight / 2, btnWidth, btnHeight, 16);
-      bg.fill({ color, alpha: 1 });
-      bg.stroke({ width: 3, color: 0xffffff, alpha: 0.4 });
-    });
+  /** Keeps the toggles in sync when a preference changes elsewhere (e.g. leaving fullscreen with Escape). */
+  private onPreferenceChange = (key: PreferenceKey, values: Readonly<PreferenceValues>): void => {
+    const toggle = this._toggles.get(key);
+    if (toggle) toggle.value = values[key] === true;
+  };
 
-    container.on('pointerout', () => {
-      gsap.to(container.scale, { x: 1, y: 1, duration: 0.2 });
-      gsap.to(arrow, { x: btnWidth / 2 - 30, alpha: 0.5, duration: 0.2 });
-      bg.clear();
-      bg.roundRect(-btnWidth / 2, -btnHeight / 2, btnWidth, btnHeight, 16);
-      bg.fill({ color, alpha: 0.9 });
-      bg.stroke({ width: 2, color: 0xffffff, alpha: 0.2 });
-    });
+  /** Room left for the scene list between the title and the settings row. */
+  private get listHeight(): number {
+    return Math.max(BUTTON_HEIGHT, SceneManager.height - LIST_TOP - LIST_MARGIN - SETTINGS_HEIGHT);
+  }
 
-    container.on('pointerdown', onClick);
+  public focusOrder(): Focusable[] {
+    return [...this._list.rows, ...this._toggles.values()];
+  }
 
-    this._buttons.push({ container, bg, label: labelText });
-    this.addChild(container);
+  public accessibleContent(): AccessibleContent {
+    return { heading: this._title.text, text: [this._subtitle.text] };
   }
 
   public update(_delta: number): void {}
 
-  public resize(_width: number, _height: number): void {}
+  public resize(width: number, _height: number): void {
+    this.drawBackground();
+    this._title.x = width / 2;
+    this._subtitle.x = width / 2;
+    this._list.resize(LIST_WIDTH, this.listHeight);
+    this._list.x = (width - LIST_WIDTH) / 2;
+    this.positionSettings();
+  }
 
   public cleanup(): void {
-    this._buttons.forEach(btn => {
-      gsap.killTweensOf(btn.container.scale);
-    });
+    this._unsubscribePreferences();
+    this._list.destroy();
     this.removeChildren();
   }
 }
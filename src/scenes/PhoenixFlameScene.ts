@@ -2,8 +2,14 @@ import { Container, Assets, AnimatedSprite, Sprite, Texture, Filter, GlProgram }
 import { SceneManager, type IScene } from '../SceneManager';
 import { createBackButton } from '../ui/BackButton';
 import { MuteButton } from '../ui/MuteButton';
+import { Layout } from '../Layout';
 import { SoundManager } from '../SoundManager';
 import { config } from '../config';
+import { Toasts } from '../Toasts';
+import type { ConfigChange } from '../ConfigStore';
+import type { Button } from '../ui/Button';
+import type { Focusable } from '../FocusManager';
+import type { AccessibleContent } from '../Accessibility';
 
 interface Shaders {
   vertex: string;
@@ -28,14 +34,26 @@ export class PhoenixFlameScene extends Container implements IScene {
   private _flyingParticles: FlyingParticle[] = [];
   private _fireTexture: Texture | null = null;
   private _spawnTimer: number = 0;
+  private _backButton: Button;
+  private _muteButton: MuteButton;
+  /** The fire loop is the scene's music track, so it crossfades with other scenes' music. */
+  public readonly music = SoundManager.uniqueKey('fire-loop');
 
   constructor() {
     super();
-    this.addChild(createBackButton());
+    this._backButton = this.addChild(createBackButton());
 
-    const muteBtn = new MuteButton();
-    muteBtn.position.set(SceneManager.width - 80, 90);
-    this.addChild(muteBtn);
+    this._muteButton = new MuteButton();
+    Layout.anchor(this._muteButton, { at: 'top-right', x: -80, y: 90 });
+    this.addChild(this._muteButton);
+  }
+
+  public focusOrder(): Focusable[] {
+    return [this._backButton, this._muteButton];
+  }
+
+  public accessibleContent(): AccessibleContent {
+    return { heading: 'Phoenix Flame' };
   }
 
   public  async init(): Promise<void> {
@@ -49,16 +67,18 @@ export class PhoenixFlameScene extends Container implements IScene {
         glowFrag: Assets.get('glow-frag'),
       };
 
-      SoundManager.load('fire-loop', [Assets.get('fire-loop-webm'), Assets.get('fire-loop-mp3')], {
+      SoundManager.load(this.music, [Assets.get('fire-loop-webm'), Assets.get('fire-loop-mp3')], {
+        category: 'music',
         loop: true,
         volume: config.sound.fireLoopVolume,
       });
-      SoundManager.play('fire-loop');
 
       const frames = spritesheet.animations['flare'] as Texture[];
       this.createFlame(frames, shaders);
+      SoundManager.attach(this.music, this._flameContainer);
     } catch (error) {
       console.error('Failed to load phoenix-flame bundle:', error);
+      Toasts.show('Failed to load the flame effect', { kind: 'error' });
     }
   }
 
@@ -183,6 +203,28 @@ export class PhoenixFlameScene extends Container implements IScene {
     }
   }
 
+  /** Freezes the flame animation and pauses the fire loop while the scene is not updating. */
+  public pause(): void {
+    for (const flame of this._flames) {
+      flame.stop();
+    }
+    SoundManager.pause(this.music);
+  }
+
+  public resume(): void {
+    for (const flame of this._flames) {
+      flame.play();
+    }
+    SoundManager.resume(this.music);
+  }
+
+  /** Applies fire loop volume changes from the tuning panel to the playing loop. */
+  public configChanged(change: ConfigChange): void {
+    if (change.section === 'sound' && change.key === 'fireLoopVolume') {
+      SoundManager.setVolume(this.music, config.sound.fireLoopVolume);
+    }
+  }
+
   public resize(_width: number, _height: number): void {
     if (this._flameContainer) {
       this._flameContainer.position.set(
@@ -199,8 +241,8 @@ export class PhoenixFlameScene extends Container implements IScene {
   }
 
   public cleanup(): void {
-    SoundManager.fadeOut('fire-loop', config.sound.fadeOutDuration);
-    SoundManager.unload('fire-loop');
+    // Fades out past the scene's destruction, then unloads
+    void SoundManager.fadeOutAndUnload(this.music, config.sound.fadeOutDuration);
 
     if (this._flameFilter) {
       this._flameFilter.destroy();
@@ -1,8 +1,16 @@
-import { Container, Graphics, Sprite, Texture, Filter, GlProgram, defaultFilterVert, MeshRope, Point, Text } from 'pixi.js';
-import { Howl } from 'howler';
+import { Assets, Container, Graphics, Sprite, Texture, Filter, GlProgram, defaultFilterVert, MeshRope, Point, Text } from 'pixi.js';
 import { SceneManager, type IScene } from '../SceneManager';
 import { createBackButton } from '../ui/BackButton';
 import { MuteButton } from '../ui/MuteButton';
+import { SoundManager } from '../SoundManager';
+import { Layout } from '../Layout';
+import { config } from '../config';
+import { Toasts } from '../Toasts';
+import { findScene } from '../sceneRegistry';
+import type { ConfigChange } from '../ConfigStore';
+import type { Button } from '../ui/Button';
+import type { Focusable } from '../FocusManager';
+import type { AccessibleContent } from '../Accessibility';
 
 type SeedState = 'FALLING' | 'FLOATING' | 'SINKING' | 'STACKED' | 'EXPLODED';
 
@@ -12,6 +20,11 @@ interface Seed extends Sprite {
   state: SeedState;
   floatTimer: number;
   trail?: Trail;
+  // Simulated position after the latest fixed step, and the one before it (for interpolation)
+  simX: number;
+  simY: number;
+  prevX: number;
+  prevY: number;
 }
 
 class Trail {
@@ -53,6 +66,7 @@ class Trail {
 export class SeedsScene extends Container implements IScene {
   private skyContainer: Container;
   private waterContainer: Container;
+  private skyBg: Graphics;
   private waterBg: Graphics;
   private waterFilter: Filter;
   private seeds: Seed[] = [];
@@ -62,9 +76,11 @@ export class SeedsScene extends Container implements IScene {
   private _trailPool: Trail[] = [];
   private texSeed!: Texture;
   private texTrail!: Texture;
-  private sfxExplode: Howl;
   // null = unknown/loading, true = available, false = failed
   private _sfxAvailable: boolean | null = null;
+  /** SoundManager keys of the scene's audio sprite and of its explosion region. */
+  private readonly _sfxSprite = SoundManager.uniqueKey('seeds');
+  private readonly _sfxExplode = `${this._sfxSprite}.explode`;
 
   private time = 0;
   private magnetActive = false;
@@ -77,10 +93,13 @@ export class SeedsScene extends Container implements IScene {
 
   private readonly WATER_LEVEL: number;
   private readonly GROUND_LEVEL: number;
+  private static readonly INSTRUCTIONS = 'Click on water to attract seeds. Gather 10+ for explosion!';
   private readonly COLORS = [0xFF5555, 0x55FF55, 0x5555FF, 0xFFFF55];
   private readonly FULL_STACK_THRESHOLD = 30;
   private _isRestarting = false;
   private _restartTimeout: any = null;
+  private _backButton!: Button;
+  private _muteButton!: MuteButton;
 
   constructor() {
     super();
@@ -92,8 +111,8 @@ export class SeedsScene extends Container implements IScene {
     this.GROUND_LEVEL = h - 20;
     
     // Background
-    const skyBg = new Graphics().rect(0, 0, w, h).fill(0x87CEEB);
-    this.addChild(skyBg);
+    this.skyBg = new Graphics().rect(0, 0, w, h).fill(0x87CEEB);
+    this.addChild(this.skyBg);
 
     // Water background (interactive)
     this.waterBg = new Graphics().rect(0, this.WATER_LEVEL, w, h / 2).fill(0x006994);
@@ -141,14 +160,16 @@ export class SeedsScene extends Container implements IScene {
     const gTrail = new Graphics().rect(0, 0, 20, 10).fill(0xFFFFFF);
     this.texTrail = SceneManager.app.renderer.generateTexture(gTrail);
 
-    this.sfxExplode = new Howl({
-      src: ['assets/sfx/explosion.webm', 'assets/sfx/explosion.mp3'],
+    SoundManager.loadSprite(this._sfxSprite, Assets.get('seeds-sfx'), {
+      category: 'sfx',
       volume: 0.5,
-      preload: false,
+      maxVoices: config.sound.explosionMaxVoices,
       onload: () => { this._sfxAvailable = true; },
-      onloaderror: () => { this._sfxAvailable = false; }
+      onloaderror: () => {
+        this._sfxAvailable = false;
+        Toasts.show('Sound unavailable', { kind: 'warning' });
+      }
     });
-    try { this.sfxExplode.load(); } catch (e) {}
 
     // Pointer events
     this.waterBg.eventMode = 'static';
@@ -167,16 +188,24 @@ export class SeedsScene extends Container implements IScene {
     // Instructions
     this.createInstructions();
 
-    const muteBtn = new MuteButton();
-    muteBtn.position.set(SceneManager.width - 80, 90);
-    this.addChild(muteBtn);
+    this._muteButton = new MuteButton();
+    Layout.anchor(this._muteButton, { at: 'top-right', x: -80, y: 90 });
+    this.addChild(this._muteButton);
+
+    this._backButton = this.addChild(createBackButton());
+  }
+
+  public focusOrder(): Focusable[] {
+    return [this._backButton, this._muteButton];
+  }
 
-    this.addChild(createBackButton());
+  public accessibleContent(): AccessibleContent {
+    return { heading: 'Water Seeds', text: [SeedsScene.INSTRUCTIONS] };
   }
 
   private createInstructions(): void {
     const text = new Text({
-      text: 'Click on water to attract seeds. Gather 10+ for explosion!',
+      text: SeedsScene.INSTRUCTIONS,
       style: { fill: '#ffffff', fontSize: 16, fontFamily: 'Arial' }
     });
     text.anchor.set(0.5, 0);
@@ -199,6 +228,8 @@ export class SeedsScene extends Container implements IScene {
     s.vy = 2 + Math.random() * 3;
     s.state = 'FALLING';
     s.floatTimer = 0;
+    s.simX = s.prevX = s.x;
+    s.simY = s.prevY = s.y;
     this.skyContainer.addChild(s);
     this.seeds.push(s);
   }
@@ -277,20 +308,30 @@ export class SeedsScene extends Container implements IScene {
     return group;
   }
 
-  public update(delta: number): void {
+  /**
+   * Runs the seed simulation at a fixed rate so it behaves the same on 60Hz and 144Hz displays.
+   * The physics constants are tuned per 60fps frame, hence `delta` in frames below.
+   */
+  public fixedUpdate(dt: number): void {
+    const delta = dt * 60;
     this.time += delta * 0.05;
-    this.waterFilter.resources.uniforms.uniforms.uTime = this.time;
+
+    // Sprites may hold interpolated positions from the last render; simulate from the real ones
+    for (const s of this.seeds) {
+      s.x = s.prevX = s.simX;
+      s.y = s.prevY = s.simY;
+    }
 
     // spawn accumulator (seconds-based)
-    this._spawnAcc += delta * (1 / 60);
+    this._spawnAcc += dt;
     if (!this._isRestarting && this._spawnAcc >= this.SPAWN_INTERVAL) {
       this._spawnAcc -= this.SPAWN_INTERVAL;
       this.spawnSeed();
     }
 
-    // update-driven magnet timer (delta is in frames; convert to seconds)
+    // update-driven magnet timer (seconds)
     if (this._magnetTimer != null) {
-      this._magnetTimer -= delta * (1 / 60);
+      this._magnetTimer -= dt;
       if (this._magnetTimer <= 0) {
         this.magnetActive = false;
         this._magnetTimer = null;
@@ -373,7 +414,15 @@ export class SeedsScene extends Container implements IScene {
       }
 
       if (this._sfxAvailable !== false) {
-        try { this.sfxExplode.play(); } catch (e) {}
+        // Heard from the middle of the burst
+        let cx = 0;
+        let cy = 0;
+        for (const s of toExplode) {
+          cx += s.x;
+          cy += s.y;
+        }
+        const emitter = this.toGlobal({ x: cx / toExplode.size, y: cy / toExplode.size });
+        try { SoundManager.play(this._sfxExplode, { emitter }); } catch (e) {}
       }
 
       for (const s of toExplode) {
@@ -413,7 +462,7 @@ export class SeedsScene extends Container implements IScene {
         if (this._sfxAvailable === false) {
           // skip
         } else {
-          this.sfxExplode.play();
+          SoundManager.play(this._sfxExplode);
         }
       } catch (e) {}
 
@@ -432,12 +481,44 @@ export class SeedsScene extends Container implements IScene {
 
       // Delay restart slightly so explosion plays
       this._restartTimeout = setTimeout(() => {
-        try { void SceneManager.changeScene(() => new SeedsScene()); } catch (e) {}
+        // The user is already leaving (e.g. pressed Back); don't replace whatever comes next
+        if (SceneManager.isTransitioning) return;
+        void SceneManager.replaceScene(() => new SeedsScene(), findScene('seeds')?.bundles).then(result => {
+          if (!result.ok && result.reason !== 'cancelled') {
+            console.error('[Seeds] Restart failed:', result.reason);
+          }
+        });
       }, 1000);
     }
+
+    for (const s of this.seeds) {
+      s.simX = s.x;
+      s.simY = s.y;
+    }
+  }
+
+  /** Renders seeds between their last two simulated positions for smooth motion at any refresh rate. */
+  public update(_delta: number, alpha: number = 1): void {
+    this.waterFilter.resources.uniforms.uniforms.uTime = this.time;
+
+    for (const s of this.seeds) {
+      s.x = s.prevX + (s.simX - s.prevX) * alpha;
+      s.y = s.prevY + (s.simY - s.prevY) * alpha;
+    }
+  }
+
+  /** Stretches sky and water to the logical size; the water line and ground keep their design height. */
+  public resize(width: number, height: number): void {
+    this.skyBg.clear().rect(0, 0, width, height).fill(0x87CEEB);
+    this.waterBg.clear().rect(0, this.WATER_LEVEL, width, height - this.WATER_LEVEL).fill(0x006994);
   }
 
-  public resize(_width: number, _height: number): void {}
+  /** Applies the explosion voice limit from the tuning panel. */
+  public configChanged(change: ConfigChange): void {
+    if (change.section === 'sound' && change.key === 'explosionMaxVoices') {
+      SoundManager.setMaxVoices(this._sfxExplode, config.sound.explosionMaxVoices);
+    }
+  }
 
   public cleanup(): void {
     // spawn accumulator handles spawning; nothing to clear here
@@ -483,7 +564,7 @@ export class SeedsScene extends Container implements IScene {
     try { this.texTrail.destroy(true); } catch (e) {}
     try { this.waterFilter.destroy(); } catch (e) {}
 
-    this.sfxExplode.unload();
+    SoundManager.unload(this._sfxSprite);
 
     // Remove all children
     try { this.removeChildren(); } catch (e) {}
@@ -0,0 +1,21 @@
+import { Container } from 'pixi.js';
+import { gsap } from 'gsap';
+import type { SceneTransition } from './SceneTransition';
+import { config } from '../config';
+
+/**
+ * Blends the incoming scene over the outgoing one by fading its alpha in.
+ */
+export class CrossfadeTransition implements SceneTransition {
+  private _duration: number;
+
+  /** @param duration Duration in seconds */
+  constructor(duration: number = config.transition.duration) {
+    this._duration = duration;
+  }
+
+  public async play(_from: Container | undefined, to: Container): Promise<void> {
+    to.alpha = 0;
+    await gsap.to(to, { alpha: 1, duration: this._duration, ease: 'sine.inOut' });
+  }
+}
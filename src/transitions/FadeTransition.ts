@@ -0,0 +1,44 @@
+import { Container, Graphics } from 'pixi.js';
+import { gsap } from 'gsap';
+import type { SceneTransition, TransitionContext } from './SceneTransition';
+import { config } from '../config';
+
+export interface FadeTransitionOptions {
+  /** Color the screen fades through. */
+  color?: number;
+  /** Total duration in seconds (half to fade out, half to fade in). */
+  duration?: number;
+}
+
+/**
+ * Fades the outgoing scene to a solid color, swaps, then fades the incoming scene in.
+ */
+export class FadeTransition implements SceneTransition {
+  private _color: number;
+  private _duration: number;
+
+  constructor(options: FadeTransitionOptions = {}) {
+    this._color = options.color ?? config.transition.color;
+    this._duration = options.duration ?? config.transition.duration;
+  }
+
+  public async play(from: Container | undefined, to: Container, ctx: TransitionContext): Promise<void> {
+    const overlay = new Graphics().rect(0, 0, ctx.width, ctx.height).fill(this._color);
+    overlay.eventMode = 'static';
+    ctx.layer.addChild(overlay);
+
+    const half = this._duration / 2;
+    to.visible = false;
+
+    if (from) {
+      overlay.alpha = 0;
+      await gsap.to(overlay, { alpha: 1, duration: half, ease: 'power1.in' });
+      from.visible = false;
+    }
+
+    to.visible = true;
+    await gsap.to(overlay, { alpha: 0, duration: half, ease: 'power1.out' });
+
+    overlay.destroy();
+  }
+}
@@ -0,0 +1,55 @@
+import { Container, Graphics } from 'pixi.js';
+import { gsap } from 'gsap';
+import type { SceneTransition, TransitionContext } from './SceneTransition';
+import { config } from '../config';
+
+export interface IrisTransitionOptions {
+  /** Center of the iris in logical coordinates. Defaults to the screen center. */
+  x?: number;
+  y?: number;
+  /** Duration in seconds. */
+  duration?: number;
+}
+
+/**
+ * Reveals the incoming scene through a circle that grows from a point until it covers the screen.
+ */
+export class IrisTransition implements SceneTransition {
+  private _options: IrisTransitionOptions;
+  private _duration: number;
+
+  constructor(options: IrisTransitionOptions = {}) {
+    this._options = options;
+    this._duration = options.duration ?? config.transition.duration;
+  }
+
+  public async play(_from: Container | undefined, to: Container, ctx: TransitionContext): Promise<void> {
+    const cx = this._options.x ?? ctx.width / 2;
+    const cy = this._options.y ?? ctx.height / 2;
+
+    // Radius needed to reach the farthest corner from the center point
+    const maxRadius = Math.hypot(Math.max(cx, ctx.width - cx), Math.max(cy, ctx.height - cy));
+
+    const mask = new Graphics();
+    ctx.layer.addChild(mask);
+    to.mask = mask;
+
+    const iris = { radius: 0 };
+    const draw = () => {
+      mask.clear();
+      mask.circle(cx, cy, Math.max(1, iris.radius));
+      mask.fill(0xffffff);
+    };
+    draw();
+
+    await gsap.to(iris, {
+      radius: maxRadius,
+      duration: this._duration,
+      ease: 'power2.in',
+      onUpdate: draw,
+    });
+
+    to.mask = null;
+    mask.destroy();
+  }
+}
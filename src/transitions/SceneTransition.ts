@@ -0,0 +1,27 @@
+import type { Container } from 'pixi.js';
+
+/** Everything a transition needs to animate between two scenes. */
+export interface TransitionContext {
+  /** Container both scenes live in; transitions may add temporary overlays here. */
+  layer: Container;
+  /** Logical width of the viewport. */
+  width: number;
+  /** Logical height of the viewport. */
+  height: number;
+}
+
+/**
+ * Animates the swap between an outgoing and an incoming scene.
+ * Both scenes are on the layer while `play` runs (`to` above `from`);
+ * SceneManager removes and destroys `from` only after the returned promise resolves.
+ */
+export interface SceneTransition {
+  /**
+   * Plays the transition.
+   * @param from The outgoing scene, or undefined when nothing was shown before.
+   * @param to The incoming scene, already initialized and resized.
+   * @param ctx Layer and viewport size.
+   */
+  play(from: Container | undefined, to: Container, ctx: TransitionContext): Promise<void>;
+}
+
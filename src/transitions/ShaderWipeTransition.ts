@@ -0,0 +1,73 @@
+import { Container, Filter, GlProgram, Rectangle, defaultFilterVert } from 'pixi.js';
+import { gsap } from 'gsap';
+import type { SceneTransition, TransitionContext } from './SceneTransition';
+import { config } from '../config';
+
+/**
+ * Default wipe: reveals left to right with a soft edge.
+ * Custom fragments receive the same uniforms: `uProgress` (0-1) and `uSoftness`,
+ * and can compute screen-space UVs as `vTextureCoord * uInputSize.xy / uOutputFrame.zw`.
+ */
+const defaultWipeFrag = `
+  precision mediump float;
+  in vec2 vTextureCoord;
+  out vec4 finalColor;
+  uniform sampler2D uTexture;
+  uniform vec4 uInputSize;
+  uniform vec4 uOutputFrame;
+  uniform float uProgress;
+  uniform float uSoftness;
+  void main() {
+    vec2 uv = vTextureCoord * uInputSize.xy / uOutputFrame.zw;
+    float edge = uProgress * (1.0 + uSoftness);
+    float reveal = 1.0 - smoothstep(edge - uSoftness, edge, uv.x);
+    finalColor = texture(uTexture, vTextureCoord) * reveal;
+  }
+`;
+
+export interface ShaderWipeTransitionOptions {
+  /** Fragment shader source driving the wipe. Defaults to a horizontal soft wipe. */
+  fragment?: string;
+  /** Width of the soft edge in screen UV units. */
+  softness?: number;
+  /** Duration in seconds. */
+  duration?: number;
+}
+
+/**
+ * Reveals the incoming scene through a filter whose `uProgress` uniform tweens from 0 to 1.
+ * Pass a custom fragment shader for patterned or noise-based wipes.
+ */
+export class ShaderWipeTransition implements SceneTransition {
+  private _fragment: string;
+  private _softness: number;
+  private _duration: number;
+
+  constructor(options: ShaderWipeTransitionOptions = {}) {
+    this._fragment = options.fragment ?? defaultWipeFrag;
+    this._softness = options.softness ?? 0.1;
+    this._duration = options.duration ?? config.transition.duration;
+  }
+
+  public async play(_from: Container | undefined, to: Container, ctx: TransitionContext): Promise<void> {
+    const filter = new Filter({
+      glProgram: new GlProgram({ vertex: defaultFilterVert, fragment: this._fragment }),
+      resources: {
+        uniforms: {
+          uProgress: { value: 0, type: 'f32' },
+          uSoftness: { value: this._softness, type: 'f32' },
+        },
+      },
+    });
+
+    to.filters = [filter];
+    to.filterArea = new Rectangle(0, 0, ctx.width, ctx.height);
+
+    const uniforms = filter.resources.uniforms.uniforms;
+    await gsap.to(uniforms, { uProgress: 1, duration: this._duration, ease: 'sine.inOut' });
+
+    to.filters = [];
+    to.filterArea = undefined;
+    filter.destroy();
+  }
+}
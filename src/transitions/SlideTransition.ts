@@ -0,0 +1,40 @@
+import { Container } from 'pixi.js';
+import { gsap } from 'gsap';
+import type { SceneTransition, TransitionContext } from './SceneTransition';
+import { config } from '../config';
+
+export type SlideDirection = 'left' | 'right' | 'up' | 'down';
+
+export interface SlideTransitionOptions {
+  /** Direction the scenes move in. Defaults to 'left' (new scene enters from the right). */
+  direction?: SlideDirection;
+  /** Duration in seconds. */
+  duration?: number;
+}
+
+/**
+ * Pushes the outgoing scene off screen while the incoming one slides into place.
+ */
+export class SlideTransition implements SceneTransition {
+  private _direction: SlideDirection;
+  private _duration: number;
+
+  constructor(options: SlideTransitionOptions = {}) {
+    this._direction = options.direction ?? 'left';
+    this._duration = options.duration ?? config.transition.duration;
+  }
+
+  public async play(from: Container | undefined, to: Container, ctx: TransitionContext): Promise<void> {
+    const dx = this._direction === 'left' ? -ctx.width : this._direction === 'right' ? ctx.width : 0;
+    const dy = this._direction === 'up' ? -ctx.height : this._direction === 'down' ? ctx.height : 0;
+
+    to.position.set(-dx, -dy);
+
+    const tl = gsap.timeline();
+    tl.to(to, { x: 0, y: 0, duration: this._duration, ease: 'power2.inOut' }, 0);
+    if (from) {
+      tl.to(from, { x: dx, y: dy, duration: this._duration, ease: 'power2.inOut' }, 0);
+    }
+    await tl;
+  }
+}
@@ -1,18 +1,28 @@
 import { SceneManager } from '../SceneManager';
-import { MenuScene } from '../scenes/MenuScene';
+import { Router } from '../Router';
+import { Layout } from '../Layout';
 import { Button } from './Button';
 
+/**
+ * Goes back through the router: browser history for routed scenes, otherwise the scene stack.
+ * Scenes with a `leaveWarning` are only left once the user confirms (see Router).
+ */
+export function goBack(): void {
+  if (SceneManager.isTransitioning) return;
+  Router.back();
+}
+
 export function createBackButton(): Button {
   const btn = new Button({
     label: '← Back',
+    accessibleLabel: 'Back',
     width: 120,
     height: 44,
     fontSize: 22,
     color: 0x2a2a2a,
     hoverColor: 0x444444,
-    onClick: () => SceneManager.changeScene(new MenuScene()),
+    onClick: goBack,
   });
 
-  btn.position.set(SceneManager.width - 80, 40);
-  return btn;
+  return Layout.anchor(btn, { at: 'top-right', x: -80, y: 40 });
 }
@@ -1,8 +1,12 @@
 import { Container, Graphics, Text } from 'pixi.js';
 import { gsap } from 'gsap';
+import type { Focusable } from '../FocusManager';
+import { ScrollView } from './ScrollView';
 
 export interface ButtonOptions {
   label: string;
+  /** Text or emoji shown before the label; icon and label are centered together. */
+  icon?: string;
   width?: number;
   height?: number;
   fontSize?: number;
@@ -10,13 +14,44 @@ export interface ButtonOptions {
   hoverColor?: number;
   textColor?: string;
   borderRadius?: number;
+  /** Name for screen readers when the label is symbolic. Defaults to the label. */
+  accessibleLabel?: string;
+  /** Starts greyed out and ignoring input. */
+  disabled?: boolean;
+  /** Minimum time (ms) between two clicks; clicks in between are ignored. */
+  cooldown?: number;
+  /** Hold time (ms) before `onLongPress` fires. */
+  longPressDelay?: number;
+  /** Called instead of `onClick` when the button is held for `longPressDelay`. */
+  onLongPress?: () => void;
+  /** Called when a press is released over the button, and by keyboard/gamepad activation. */
   onClick: () => void;
 }
 
-export class Button extends Container {
+type ResolvedOptions = Required<Omit<ButtonOptions, 'icon' | 'accessibleLabel' | 'onLongPress'>>
+  & Pick<ButtonOptions, 'icon' | 'accessibleLabel' | 'onLongPress'>;
+
+const FOCUS_RING_COLOR = 0xffcc00;
+const ICON_GAP = 12;
+const DISABLED_ALPHA = 0.45;
+
+/**
+ * A rounded button with a label and optional icon. A click is a press released over the
+ * button: sliding off cancels it, holding calls `onLongPress` (if set) instead. Highlights
+ * while hovered or focused and shrinks slightly while pressed.
+ */
+export class Button extends Container implements Focusable {
   private _bg: Graphics;
+  private _focusRing: Graphics;
   private _label: Text;
-  private _options: Required<ButtonOptions>;
+  private _icon: Text;
+  private _options: ResolvedOptions;
+  private _hovered = false;
+  private _focused = false;
+  private _pressed = false;
+  private _disabled: boolean;
+  private _lastClick = -Infinity;
+  private _longPressTimer: gsap.core.Tween | null = null;
 
   constructor(options: ButtonOptions) {
     super();
@@ -29,10 +64,16 @@ export class Button extends Container {
       hoverColor: 0x555555,
       textColor: '#ffffff',
       borderRadius: 8,
+      disabled: false,
+      cooldown: 0,
+      longPressDelay: 500,
       ...options,
     };
+    this._disabled = this._options.disabled;
 
     this._bg = new Graphics();
+    this._focusRing = new Graphics();
+    this._focusRing.visible = false;
     this._label = new Text({
       text: this._options.label,
       style: {
@@ -41,40 +82,176 @@ export class Button extends Container {
         fontFamily: 'Arial',
       }
     });
+    this._icon = new Text({
+      text: '',
+      style: { fontSize: this._options.fontSize * 1.3 },
+    });
 
     this._label.anchor.set(0.5);
+    this._icon.anchor.set(0.5);
     this.addChild(this._bg);
+    this.addChild(this._focusRing);
+    this.addChild(this._icon);
     this.addChild(this._label);
 
-    this.draw(this._options.color);
+    this.draw();
+    this.layoutContent();
     this.setupInteraction();
+    this.alpha = this._disabled ? DISABLED_ALPHA : 1;
+  }
+
+  /**
+   * Changes some options and redraws, e.g. to show a different item in a recycled list row.
+   * @param options - Options to change; others keep their current value
+   */
+  setOptions(options: Partial<ButtonOptions>): void {
+    this._options = { ...this._options, ...options };
+    this._label.text = this._options.label;
+    this._label.style.fill = this._options.textColor;
+    this._label.style.fontSize = this._options.fontSize;
+    this._icon.style.fontSize = this._options.fontSize * 1.3;
+    if (options.disabled !== undefined) this.disabled = options.disabled;
+    this.draw();
+    this.layoutContent();
+  }
+
+  /** A disabled button is greyed out and ignores pointer, keyboard and gamepad input. */
+  get disabled(): boolean {
+    return this._disabled;
+  }
+
+  set disabled(value: boolean) {
+    if (value === this._disabled) return;
+    this._disabled = value;
+    this.cursor = value ? 'default' : 'pointer';
+    if (value) this.cancelPress();
+    this.refresh();
   }
 
-  private draw(color: number): void {
-    const { width, height, borderRadius } = this._options;
+  /** Draws the background, highlighted while hovered or focused, and the focus ring. */
+  private draw(): void {
+    const { width, height, borderRadius, color, hoverColor } = this._options;
+    const highlighted = !this._disabled && (this._hovered || this._focused);
     this._bg.clear();
     this._bg.roundRect(-width / 2, -height / 2, width, height, borderRadius);
-    this._bg.fill({ color, alpha: 0.9 });
+    this._bg.fill({ color: highlighted ? hoverColor : color, alpha: 0.9 });
+
+    const inset = 4;
+    this._focusRing.clear();
+    this._focusRing.roundRect(-width / 2 - inset, -height / 2 - inset, width + inset * 2, height + inset * 2, borderRadius + inset);
+    this._focusRing.stroke({ color: FOCUS_RING_COLOR, width: 3 });
+  }
+
+  /** Centers the icon and label together as one row. */
+  private layoutContent(): void {
+    const icon = this._options.icon ?? '';
+    this._icon.text = icon;
+    this._icon.visible = icon !== '';
+
+    if (!this._icon.visible) {
+      this._label.x = 0;
+      return;
+    }
+    const total = this._icon.width + ICON_GAP + this._label.width;
+    this._icon.x = -total / 2 + this._icon.width / 2;
+    this._label.x = total / 2 - this._label.width / 2;
+  }
+
+  /** Shows the keyboard/gamepad focus ring, with the same highlight as hovering. */
+  setFocused(focused: boolean): void {
+    this._focused = focused;
+    this._focusRing.visible = focused;
+    this.refresh();
+  }
+
+  get accessibleLabel(): string {
+    return this._options.accessibleLabel ?? this._options.label;
+  }
+
+  /** Triggers the button as a click would. Does nothing while disabled or cooling down. */
+  activate(): void {
+    if (this._disabled) return;
+
+    const now = performance.now();
+    if (now - this._lastClick < this._options.cooldown) return;
+    this._lastClick = now;
+
+    this._options.onClick();
   }
 
   private setupInteraction(): void {
     this.eventMode = 'static';
-    this.cursor = 'pointer';
+    this.cursor = this._disabled ? 'default' : 'pointer';
 
     this.on('pointerover', () => {
-      this.draw(this._options.hoverColor);
-      gsap.to(this.scale, { x: 1.05, y: 1.05, duration: 0.15 });
+      this._hovered = true;
+      this.refresh();
     });
 
     this.on('pointerout', () => {
-      this.draw(this._options.color);
-      gsap.to(this.scale, { x: 1, y: 1, duration: 0.15 });
+      // Sliding off cancels the press
+      this._hovered = false;
+      this.cancelPress();
+      this.refresh();
     });
 
-    this.on('pointerdown', this._options.onClick);
+    this.on('pointerdown', () => {
+      if (this._disabled) return;
+      this._pressed = true;
+      if (this._options.onLongPress) {
+        this._longPressTimer = gsap.delayedCall(this._options.longPressDelay / 1000, this.onLongPress);
+      }
+      this.refresh();
+    });
+
+    this.on('pointerup', () => {
+      const pressed = this._pressed && !this.scrolling;
+      this.cancelPress();
+      this.refresh();
+      if (pressed) this.activate();
+    });
+
+    // Released elsewhere: no click, and nothing left highlighted or scaled
+    this.on('pointerupoutside', () => {
+      this._hovered = false;
+      this.cancelPress();
+      this.refresh();
+    });
+  }
+
+  private onLongPress = (): void => {
+    this._longPressTimer = null;
+    this._pressed = false;
+    this.refresh();
+    if (!this._disabled && !this.scrolling) this._options.onLongPress?.();
+  };
+
+  /** True while a ScrollView around the button is being dragged, so the press is a scroll, not a click. */
+  private get scrolling(): boolean {
+    return ScrollView.isDraggingAround(this);
+  }
+
+  private cancelPress(): void {
+    this._pressed = false;
+    this._longPressTimer?.kill();
+    this._longPressTimer = null;
+  }
+
+  /** Applies the current state: colors, disabled dimming and the hover/press scale. */
+  private refresh(): void {
+    this.draw();
+    this.alpha = this._disabled ? DISABLED_ALPHA : 1;
+
+    let scale = 1;
+    if (!this._disabled) {
+      if (this._pressed) scale = 0.95;
+      else if (this._hovered || this._focused) scale = 1.05;
+    }
+    gsap.to(this.scale, { x: scale, y: scale, duration: 0.15 });
   }
 
   destroy(): void {
+    this.cancelPress();
     gsap.killTweensOf(this.scale);
     super.destroy({ children: true });
   }
@@ -0,0 +1,209 @@
+import { Container, Text } from 'pixi.js';
+import { ConfigStore, type ConfigChange } from '../ConfigStore';
+import { configSchema, type NumberField } from '../configSchema';
+import { config, type ConfigSection } from '../config';
+import { Layout } from '../Layout';
+import { FocusManager, type Focusable, type FocusScope } from '../FocusManager';
+import type { AccessibleContent } from '../Accessibility';
+import { Button } from './Button';
+import { Panel } from './Panel';
+import { Slider } from './Slider';
+import { Toggle } from './Toggle';
+
+const PANEL_WIDTH = 320;
+const PADDING = 14;
+const HEADER_HEIGHT = 48;
+const ROW_HEIGHT = 58;
+const TRACK_WIDTH = PANEL_WIDTH - PADDING * 2;
+
+interface RowControl {
+  control: Focusable;
+  /** Redraws the control for the current value. */
+  sync: () => void;
+}
+
+interface Row {
+  key: string;
+  value: Text;
+  /** Redraws the control for the current value. */
+  sync: () => void;
+}
+
+/**
+ * Developer panel for tuning `configSchema` values live: a slider per number and a toggle
+ * per boolean, one config section at a time. Edits go through `ConfigStore`, so they are
+ * saved to localStorage and scenes are notified. Toggled with `config.debug.panelToggleKey`;
+ * starts visible when the URL contains `?tune`. While visible it takes keyboard/gamepad
+ * navigation as a focus scope; Escape / gamepad B hides it.
+ */
+export class ConfigPanel extends Panel implements FocusScope {
+  private _sections = Object.keys(configSchema) as ConfigSection[];
+  private _sectionIndex = 0;
+  private _title: Text;
+  private _rowsContainer: Container;
+  private _rows: Row[] = [];
+  private _headerButtons: Button[];
+  private _rowControls: Focusable[] = [];
+  private _removeScope: (() => void) | null = null;
+  private _unsubscribe: () => void;
+
+  constructor() {
+    super({ width: PANEL_WIDTH, height: HEADER_HEIGHT, padding: 0 });
+    this.zIndex = 9999;
+
+    const buttonStyle = { height: 32, fontSize: 18, color: 0x2a2a2a, hoverColor: 0x444444 };
+    const prev = new Button({ ...buttonStyle, label: '‹', width: 36, onClick: () => this.showSection(-1) });
+    prev.position.set(PADDING + 18, HEADER_HEIGHT / 2);
+    const next = new Button({ ...buttonStyle, label: '›', width: 36, onClick: () => this.showSection(1) });
+    next.position.set(PANEL_WIDTH - PADDING - 110, HEADER_HEIGHT / 2);
+    const reset = new Button({ ...buttonStyle, label: 'Reset', width: 72, onClick: () => this.resetSection() });
+    reset.position.set(PANEL_WIDTH - PADDING - 36, HEADER_HEIGHT / 2);
+
+    this._title = new Text({
+      text: '',
+      style: { fontFamily: 'monospace', fontSize: 16, fill: '#ffffff' },
+    });
+    this._title.anchor.set(0.5);
+    this._title.position.set((PADDING + 36 + PANEL_WIDTH - PADDING - 128) / 2, HEADER_HEIGHT / 2);
+
+    this._rowsContainer = new Container();
+    this._rowsContainer.y = HEADER_HEIGHT;
+
+    this.content.addChild(prev, this._title, next, reset, this._rowsContainer);
+    this._headerButtons = [prev, next, reset];
+
+    this.visible = false;
+    this.setShown(new URLSearchParams(location.search).has('tune'));
+    Layout.anchor(this, { at: 'top-right', x: -PANEL_WIDTH - 10, y: 140 });
+
+    this._unsubscribe = ConfigStore.subscribe(this.onConfigChange);
+    window.addEventListener('keydown', this.onKeyDown);
+    this.showSection(0);
+  }
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (e.code !== config.debug.panelToggleKey || e.repeat) return;
+    this.setShown(!this.visible);
+  };
+
+  /** Shows or hides the panel, taking navigation while it is shown. */
+  private setShown(shown: boolean): void {
+    if (shown === this.visible) return;
+    this.visible = shown;
+    if (shown) {
+      this._removeScope = FocusManager.pushScope(this);
+    } else {
+      this._removeScope?.();
+      this._removeScope = null;
+    }
+  }
+
+  focusOrder(): Focusable[] {
+    return [...this._headerButtons, ...this._rowControls];
+  }
+
+  accessibleContent(): AccessibleContent {
+    return { heading: `Config: ${this._sections[this._sectionIndex]}` };
+  }
+
+  back(): void {
+    this.setShown(false);
+  }
+
+  private onConfigChange = (change: ConfigChange): void => {
+    if (change.section !== this._sections[this._sectionIndex]) return;
+    this._rows.find(row => row.key === change.key)?.sync();
+  };
+
+  /** Moves to the previous (-1) or next (1) section and rebuilds the rows. */
+  private showSection(step: number): void {
+    const count = this._sections.length;
+    this._sectionIndex = (this._sectionIndex + step + count) % count;
+    const section = this._sections[this._sectionIndex];
+    this._title.text = section;
+
+    this._rows = [];
+    this._rowControls = [];
+    for (const child of this._rowsContainer.removeChildren()) {
+      child.destroy({ children: true });
+    }
+
+    for (const [key, field] of Object.entries(configSchema[section] ?? {})) {
+      const row = new Container();
+      row.y = this._rows.length * ROW_HEIGHT;
+
+      const label = new Text({
+        text: key,
+        style: { fontFamily: 'monospace', fontSize: 14, fill: '#cccccc' },
+      });
+      label.position.set(PADDING, 6);
+
+      const value = new Text({
+        text: '',
+        style: { fontFamily: 'monospace', fontSize: 14, fill: '#00ff00' },
+      });
+      value.anchor.set(1, 0);
+      value.position.set(PANEL_WIDTH - PADDING, 6);
+
+      const { control, sync } = field.type === 'number'
+        ? this.createSlider(section, key, field, value)
+        : this.createToggle(section, key, value);
+      control.position.set(PADDING, 32);
+      row.addChild(label, value, control);
+      this._rowsContainer.addChild(row);
+
+      this._rows.push({ key, value, sync });
+      this._rowControls.push(control);
+      sync();
+    }
+
+    this.resize(PANEL_WIDTH, HEADER_HEIGHT + this._rows.length * ROW_HEIGHT + PADDING);
+  }
+
+  private createSlider(section: ConfigSection, key: string, field: NumberField, value: Text): RowControl {
+    const slider = new Slider({
+      width: TRACK_WIDTH,
+      min: field.min,
+      max: field.max,
+      step: field.step,
+      accessibleLabel: key,
+      onChange: (v) => ConfigStore.set(section, key, v),
+    });
+
+    return {
+      control: slider,
+      sync: () => {
+        const current = ConfigStore.get(section, key) as number;
+        value.text = String(current);
+        slider.value = current;
+      },
+    };
+  }
+
+  private createToggle(section: ConfigSection, key: string, value: Text): RowControl {
+    const toggle = new Toggle({
+      accessibleLabel: key,
+      onChange: (on) => ConfigStore.set(section, key, on),
+    });
+
+    return {
+      control: toggle,
+      sync: () => {
+        const on = ConfigStore.get(section, key) === true;
+        value.text = on ? 'on' : 'off';
+        toggle.value = on;
+      },
+    };
+  }
+
+  private resetSection(): void {
+    ConfigStore.reset(this._sections[this._sectionIndex]);
+  }
+
+  public override destroy(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+    this._removeScope?.();
+    this._unsubscribe();
+    super.destroy({ children: true });
+  }
+}
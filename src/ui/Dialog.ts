@@ -0,0 +1,140 @@
+import { Container, Sprite, Text, Texture } from 'pixi.js';
+import { gsap } from 'gsap';
+import { SceneManager } from '../SceneManager';
+import { Layout } from '../Layout';
+import type { Focusable, FocusScope } from '../FocusManager';
+import type { AccessibleContent } from '../Accessibility';
+import { Button } from './Button';
+import { MixedText } from './MixedText';
+import { Panel } from './Panel';
+
+export interface DialogButton<T extends string = string> {
+  /** Value the dialog resolves with when this button is chosen. */
+  id: T;
+  label: string;
+  color?: number;
+  hoverColor?: number;
+}
+
+export interface DialogOptions<T extends string = string> {
+  title: string;
+  /** Body text; `{token}`s show the images named in `images`, as in MixedText. */
+  body: string;
+  /** Token name -> texture alias for images in the body. */
+  images?: Record<string, string>;
+  /** Buttons left to right. Defaults to a single OK button. */
+  buttons?: DialogButton<T>[];
+  /** Choice reported for Escape / gamepad B. Without it only the buttons close the dialog. */
+  cancel?: T;
+}
+
+const WIDTH = 480;
+const PADDING = 24;
+const BUTTON_WIDTH = 140;
+const BUTTON_HEIGHT = 48;
+const BUTTON_GAP = 16;
+
+/**
+ * A modal dialog: a dimmed backdrop that swallows pointer input over the whole screen and a
+ * centered panel with a title, a MixedText body and a row of buttons. Reports the chosen
+ * button once through `onChoose`; opened and queued by `Dialogs`.
+ */
+export class Dialog<T extends string = string> extends Container implements FocusScope {
+  private _backdrop: Sprite;
+  private _panel: Panel;
+  private _body: MixedText;
+  private _buttons: Button[] = [];
+  private _options: DialogOptions<T>;
+  private _onChoose: (choice: T) => void;
+  private _chosen = false;
+
+  constructor(options: DialogOptions<T>, onChoose: (choice: T) => void) {
+    super();
+    this._options = options;
+    this._onChoose = onChoose;
+
+    this._backdrop = new Sprite(Texture.WHITE);
+    this._backdrop.tint = 0x000000;
+    this._backdrop.alpha = 0.6;
+    this._backdrop.eventMode = 'static';
+    // Cover whatever part of the stage is visible, even after a resize
+    this._backdrop.onRender = () => {
+      const area = SceneManager.visibleArea;
+      this._backdrop.position.set(area.x, area.y);
+      this._backdrop.setSize(area.width, area.height);
+    };
+    this.addChild(this._backdrop);
+
+    this._panel = new Panel({ width: WIDTH, height: 0, padding: PADDING, color: 0x1a1a2e, alpha: 0.95, borderRadius: 16 });
+    const inner = this._panel.innerWidth;
+
+    const title = new Text({
+      text: options.title,
+      style: { fontFamily: 'Arial', fontSize: 26, fontWeight: 'bold', fill: '#ffffff', wordWrap: true, wordWrapWidth: inner },
+    });
+
+    this._body = new MixedText({
+      text: options.body,
+      style: { fontFamily: 'Arial', fontSize: 20, fill: '#dddddd' },
+      images: options.images ?? {},
+      maxWidth: inner,
+      lineGap: 6,
+    });
+    this._body.y = title.height + 16;
+
+    const buttons = options.buttons ?? [{ id: 'ok' as T, label: 'OK' }];
+    const rowWidth = buttons.length * BUTTON_WIDTH + (buttons.length - 1) * BUTTON_GAP;
+    const buttonsY = this._body.y + this._body.height + 24 + BUTTON_HEIGHT / 2;
+    buttons.forEach((spec, i) => {
+      const button = new Button({
+        label: spec.label,
+        width: BUTTON_WIDTH,
+        height: BUTTON_HEIGHT,
+        fontSize: 20,
+        color: spec.color ?? 0x2a2a2a,
+        hoverColor: spec.hoverColor ?? 0x444444,
+        onClick: () => this.choose(spec.id),
+      });
+      button.position.set((inner - rowWidth) / 2 + i * (BUTTON_WIDTH + BUTTON_GAP) + BUTTON_WIDTH / 2, buttonsY);
+      this._buttons.push(button);
+    });
+
+    this._panel.content.addChild(title, this._body, ...this._buttons);
+    const height = buttonsY + BUTTON_HEIGHT / 2 + PADDING * 2;
+    this._panel.resize(WIDTH, height);
+    this.addChild(this._panel);
+    Layout.anchor(this._panel, { at: 'center', x: -WIDTH / 2, y: -height / 2 });
+
+    this.alpha = 0;
+    gsap.to(this, { alpha: 1, duration: 0.15 });
+  }
+
+  focusOrder(): Focusable[] {
+    return this._buttons;
+  }
+
+  accessibleContent(): AccessibleContent {
+    const { title } = this._options;
+    const body = this._body.altText;
+    return { heading: title, text: [body], live: `${title}. ${body}` };
+  }
+
+  back(): void {
+    if (this._options.cancel !== undefined) this.choose(this._options.cancel);
+  }
+
+  /** Reports the choice (only the first one counts) and fades the dialog out. */
+  private choose(choice: T): void {
+    if (this._chosen) return;
+    this._chosen = true;
+    this.eventMode = 'none';
+    this._onChoose(choice);
+
+    gsap.to(this, { alpha: 0, duration: 0.15, onComplete: () => this.destroy() });
+  }
+
+  destroy(): void {
+    gsap.killTweensOf(this);
+    super.destroy({ children: true });
+  }
+}
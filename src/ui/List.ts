@@ -0,0 +1,135 @@
+import { Container } from 'pixi.js';
+import { ScrollView } from './ScrollView';
+import { FocusManager } from '../FocusManager';
+
+export interface ListOptions<T, R extends Container> {
+  width: number;
+  height: number;
+  rowHeight: number;
+  /** Space between rows. */
+  gap?: number;
+  items: readonly T[];
+  /** Creates an empty row; rows are recycled as the list scrolls. */
+  createRow: () => R;
+  /** Shows an item in a row. Called whenever a row is given a different item. */
+  updateRow: (row: R, item: T, index: number) => void;
+}
+
+/** Rows kept alive above and below the viewport, so the next row is there to focus or scroll to. */
+const OVERSCAN = 1;
+
+/**
+ * A scrolling list that only creates rows for the items in view, recycling them while
+ * scrolling. Rows are placed with their origin at the center of their slot, like `Button`.
+ * Focusing a row with the keyboard or gamepad scrolls it into view.
+ */
+export class List<T, R extends Container = Container> extends Container {
+  private _scroll: ScrollView;
+  private _options: Required<ListOptions<T, R>>;
+  /** Rows in use, by item index. */
+  private _active: Map<number, R> = new Map();
+  private _pool: R[] = [];
+  private _unsubscribeFocus: () => void;
+
+  constructor(options: ListOptions<T, R>) {
+    super();
+
+    this._options = { gap: 0, ...options };
+    this._scroll = new ScrollView({
+      width: options.width,
+      height: options.height,
+      onScroll: () => this.layout(),
+    });
+    this.addChild(this._scroll);
+
+    this._unsubscribeFocus = FocusManager.subscribe(this.onFocusChange);
+    this.setItems(options.items);
+  }
+
+  /** The rows currently shown, in item order. */
+  get rows(): R[] {
+    return [...this._active.entries()].sort(([a], [b]) => a - b).map(([, row]) => row);
+  }
+
+  get scrollView(): ScrollView {
+    return this._scroll;
+  }
+
+  /** Replaces the items and redraws every visible row. */
+  setItems(items: readonly T[]): void {
+    this._options.items = items;
+    for (const index of [...this._active.keys()]) {
+      this.release(index);
+    }
+    this._scroll.contentHeight = Math.max(0, items.length * this.stride - this._options.gap);
+    this.layout();
+  }
+
+  resize(width: number, height: number): void {
+    this._options.width = width;
+    this._options.height = height;
+    this._scroll.resize(width, height);
+    for (const row of this._active.values()) {
+      row.x = width / 2;
+    }
+    this.layout();
+  }
+
+  /** Scrolls the least distance needed to show an item's row. */
+  scrollToIndex(index: number, animate = true): void {
+    const top = index * this.stride;
+    this._scroll.scrollIntoView(top, top + this._options.rowHeight, animate);
+  }
+
+  private get stride(): number {
+    return this._options.rowHeight + this._options.gap;
+  }
+
+  /** Assigns rows to the items in view and recycles the rest. */
+  private layout(): void {
+    const { items, height, rowHeight, width, createRow, updateRow } = this._options;
+    const scrollY = this._scroll.scrollY;
+    const first = Math.max(0, Math.floor(scrollY / this.stride) - OVERSCAN);
+    const last = Math.min(items.length - 1, Math.floor((scrollY + height) / this.stride) + OVERSCAN);
+
+    for (const index of [...this._active.keys()]) {
+      if (index < first || index > last) this.release(index);
+    }
+
+    for (let i = first; i <= last; i++) {
+      if (this._active.has(i)) continue;
+
+      const row = this._pool.pop() ?? createRow();
+      row.visible = true;
+      row.position.set(width / 2, i * this.stride + rowHeight / 2);
+      updateRow(row, items[i], i);
+      this._scroll.content.addChild(row);
+      this._active.set(i, row);
+    }
+  }
+
+  private release(index: number): void {
+    const row = this._active.get(index);
+    if (!row) return;
+    const focused: Container | null = FocusManager.focused;
+    if (focused === row) FocusManager.blur();
+
+    this._active.delete(index);
+    row.visible = false;
+    this._pool.push(row);
+  }
+
+  private onFocusChange = (focused: Container | null): void => {
+    for (const [index, row] of this._active) {
+      if (row === focused) {
+        this.scrollToIndex(index);
+        return;
+      }
+    }
+  };
+
+  destroy(): void {
+    this._unsubscribeFocus();
+    super.destroy({ children: true });
+  }
+}
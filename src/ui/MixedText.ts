@@ -55,6 +55,11 @@ export class MixedText extends Container {
     this.build();
   }
 
+  /** The text with each {token} image replaced by its name, for screen readers. */
+  public get altText(): string {
+    return this._opts.text.replace(/{(.*?)}/g, ' $1 ').replace(/\s+/g, ' ').trim();
+  }
+
   /** Returns true if typewriter animation is currently playing */
   public get isTyping(): boolean {
     return this._isTyping;
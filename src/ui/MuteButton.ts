@@ -1,15 +1,26 @@
 import { Container, Graphics, Text } from 'pixi.js';
 import { gsap } from 'gsap';
 import { SoundManager } from '../SoundManager';
+import { Preferences } from '../Preferences';
+import { AudioUnlock } from '../AudioUnlock';
+import type { Focusable } from '../FocusManager';
+
+const SIZE = 44;
 
 /**
  * A toggle button for muting/unmuting game audio.
- * Displays speaker icon that changes based on mute state.
+ * Displays speaker icon that changes based on mute state, kept in sync across instances.
+ * While the browser still blocks audio it shows a "tap to enable sound" hint instead;
+ * tapping it unlocks audio rather than toggling mute.
  */
-export class MuteButton extends Container {
+export class MuteButton extends Container implements Focusable {
   private _bg: Graphics;
+  private _focusRing: Graphics;
   private _icon: Text;
+  private _hint: Text;
   private _muted: boolean;
+  private _unsubscribe: () => void;
+  private _unsubscribeLock: () => void;
 
   constructor() {
     super();
@@ -18,8 +29,14 @@ export class MuteButton extends Container {
     this._bg = new Graphics();
     this.addChild(this._bg);
 
+    this._focusRing = new Graphics();
+    this._focusRing.roundRect(-SIZE / 2 - 4, -SIZE / 2 - 4, SIZE + 8, SIZE + 8, 12);
+    this._focusRing.stroke({ color: 0xffcc00, width: 3 });
+    this._focusRing.visible = false;
+    this.addChild(this._focusRing);
+
     this._icon = new Text({
-      text: this._muted ? '🔇' : '🔊',
+      text: '',
       style: {
         fontSize: 24,
       },
@@ -27,15 +44,52 @@ export class MuteButton extends Container {
     this._icon.anchor.set(0.5);
     this.addChild(this._icon);
 
-    this.draw();
+    this._hint = new Text({
+      text: 'Tap to enable sound',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: 16,
+        fill: '#ffffff',
+        stroke: { color: '#000000', width: 3 },
+      },
+    });
+    this._hint.anchor.set(1, 0.5);
+    this._hint.x = -32;
+    this.addChild(this._hint);
+
+    this.refresh();
     this.setupInteraction();
+
+    this._unsubscribe = Preferences.subscribe((key, values) => {
+      if (key !== 'muted') return;
+      this._muted = values.muted;
+      this.refresh();
+    });
+    this._unsubscribeLock = AudioUnlock.subscribe(() => this.refresh());
+  }
+
+  /** True when the button should offer to unlock audio instead of toggling mute. */
+  private get showsLocked(): boolean {
+    return AudioUnlock.locked && !this._muted;
   }
 
-  private draw(): void {
-    const size = 44;
+  private refresh(): void {
+    const locked = this.showsLocked;
+    this._icon.text = locked ? '🔈' : this._muted ? '🔇' : '🔊';
+    this._hint.visible = locked;
+
+    gsap.killTweensOf(this._icon);
+    this._icon.alpha = 1;
+    if (locked) {
+      gsap.to(this._icon, { alpha: 0.4, duration: 0.6, yoyo: true, repeat: -1, ease: 'sine.inOut' });
+    }
+    this.draw(locked);
+  }
+
+  private draw(locked: boolean): void {
     this._bg.clear();
-    this._bg.roundRect(-size / 2, -size / 2, size, size, 8);
-    this._bg.fill({ color: 0x2a2a2a, alpha: 0.8 });
+    this._bg.roundRect(-SIZE / 2, -SIZE / 2, SIZE, SIZE, 8);
+    this._bg.fill({ color: locked ? 0xb07d00 : 0x2a2a2a, alpha: 0.8 });
   }
 
   private setupInteraction(): void {
@@ -50,15 +104,34 @@ export class MuteButton extends Container {
       gsap.to(this.scale, { x: 1, y: 1, duration: 0.15 });
     });
 
-    this.on('pointerdown', () => {
-      this._muted = SoundManager.toggleMute();
-      this._icon.text = this._muted ? '🔇' : '🔊';
-      gsap.to(this.scale, { x: 0.9, y: 0.9, duration: 0.1, yoyo: true, repeat: 1 });
-    });
+    this.on('pointerdown', () => this.activate());
+  }
+
+  get accessibleLabel(): string {
+    return this.showsLocked ? 'Enable sound' : this._muted ? 'Unmute' : 'Mute';
+  }
+
+  /** Shows the keyboard/gamepad focus ring. */
+  setFocused(focused: boolean): void {
+    this._focusRing.visible = focused;
+  }
+
+  /** Toggles mute, or unlocks audio while it is still blocked. */
+  activate(): void {
+    if (this.showsLocked) {
+      // The gesture itself unlocks audio; don't also mute
+      AudioUnlock.unlock();
+    } else {
+      SoundManager.toggleMute();
+    }
+    gsap.to(this.scale, { x: 0.9, y: 0.9, duration: 0.1, yoyo: true, repeat: 1 });
   }
 
   destroy(): void {
+    this._unsubscribe();
+    this._unsubscribeLock();
     gsap.killTweensOf(this.scale);
+    gsap.killTweensOf(this._icon);
     super.destroy({ children: true });
   }
 }
@@ -0,0 +1,65 @@
+import { Container, Graphics } from 'pixi.js';
+
+export interface PanelOptions {
+  width: number;
+  height: number;
+  /** Space between the panel edge and `content`. */
+  padding?: number;
+  color?: number;
+  alpha?: number;
+  borderRadius?: number;
+}
+
+/**
+ * A rounded background with a padded `content` container. Its origin is the top-left
+ * corner. The background is interactive, so pointer input does not fall through it.
+ */
+export class Panel extends Container {
+  /** Add children here; (0, 0) is the padded top-left corner. */
+  public readonly content: Container;
+  private _bg: Graphics;
+  private _options: Required<PanelOptions>;
+
+  constructor(options: PanelOptions) {
+    super();
+
+    this._options = {
+      padding: 16,
+      color: 0x000000,
+      alpha: 0.8,
+      borderRadius: 8,
+      ...options,
+    };
+
+    this._bg = new Graphics();
+    this._bg.eventMode = 'static';
+    this.content = new Container();
+    this.content.position.set(this._options.padding, this._options.padding);
+    this.addChild(this._bg, this.content);
+
+    this.draw();
+  }
+
+  /** Width available to content. */
+  get innerWidth(): number {
+    return this._options.width - this._options.padding * 2;
+  }
+
+  /** Height available to content. */
+  get innerHeight(): number {
+    return this._options.height - this._options.padding * 2;
+  }
+
+  resize(width: number, height: number): void {
+    this._options.width = width;
+    this._options.height = height;
+    this.draw();
+  }
+
+  private draw(): void {
+    const { width, height, color, alpha, borderRadius } = this._options;
+    this._bg.clear();
+    this._bg.roundRect(0, 0, width, height, borderRadius);
+    this._bg.fill({ color, alpha });
+  }
+}
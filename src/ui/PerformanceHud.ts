@@ -0,0 +1,190 @@
+import {
+  Application,
+  Container,
+  Graphics,
+  RendererType,
+  Text,
+  UPDATE_PRIORITY,
+  type Ticker,
+  type TextureSource,
+  type WebGLRenderer,
+  type WebGPURenderer,
+} from 'pixi.js';
+import { gsap } from 'gsap';
+import { Howler, type Howl } from 'howler';
+import { SceneManager } from '../SceneManager';
+import { Layout } from '../Layout';
+import { config } from '../config';
+
+const GRAPH_HEIGHT = 40;
+/** Frame time mapped to the top of the graph (~30 FPS). */
+const GRAPH_MAX_MS = 33.3;
+const PANEL_WIDTH = 260;
+
+type DrawFn = (...args: never[]) => unknown;
+
+/**
+ * Development overlay with FPS min/avg/max, a frame-time graph, draw calls, the current scene's
+ * display-object count, estimated texture memory, active GSAP tweens and Howler sounds.
+ * Toggled with `config.debug.hudToggleKey`; starts visible when the URL contains `?debug`.
+ * Draw calls include the HUD's own (a few per frame).
+ */
+export class PerformanceHud extends Container {
+  private _app: Application;
+  private _bg: Graphics;
+  private _graph: Graphics;
+  private _text: Text;
+  private _frameTimes: number[] = [];
+  private _drawCalls = 0;
+  private _lastDrawCalls = 0;
+  private _sinceRefresh = 0;
+  private _restoreDraw: (() => void) | null = null;
+
+  constructor(app: Application) {
+    super();
+    this._app = app;
+    this.zIndex = 10000;
+    this.eventMode = 'none';
+
+    this._bg = new Graphics();
+    this.addChild(this._bg);
+
+    this._text = new Text({
+      text: '',
+      style: {
+        fontFamily: 'monospace',
+        fontSize: 14,
+        fill: '#00ff00',
+        lineHeight: 18,
+      },
+    });
+    this._text.position.set(8, 6);
+    this.addChild(this._text);
+
+    this._graph = new Graphics();
+    this.addChild(this._graph);
+
+    this.visible = new URLSearchParams(location.search).has('debug');
+    Layout.anchor(this, { at: 'top-left', x: 10, y: 10 });
+
+    this.countDrawCalls();
+    // Runs after the application's render (LOW) so the frame's draw calls are complete
+    app.ticker.add(this.sample, this, UPDATE_PRIORITY.UTILITY);
+    window.addEventListener('keydown', this.onKeyDown);
+  }
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (e.code !== config.debug.hudToggleKey || e.repeat) return;
+    this.visible = !this.visible;
+    if (this.visible) this.refresh();
+  };
+
+  /** Records the frame; text and graph are only rebuilt every `config.debug.refreshMs`. */
+  private sample(ticker: Ticker): void {
+    const frames = this._frameTimes;
+    frames.push(ticker.deltaMS);
+    if (frames.length > config.debug.graphFrames) frames.shift();
+
+    this._lastDrawCalls = this._drawCalls;
+    this._drawCalls = 0;
+
+    this._sinceRefresh += ticker.deltaMS;
+    if (this.visible && this._sinceRefresh >= config.debug.refreshMs) {
+      this.refresh();
+    }
+  }
+
+  private refresh(): void {
+    this._sinceRefresh = 0;
+
+    const frames = this._frameTimes;
+    let min = Infinity;
+    let max = 0;
+    let total = 0;
+    for (const ms of frames) {
+      min = Math.min(min, ms);
+      max = Math.max(max, ms);
+      total += ms;
+    }
+    const avg = frames.length ? total / frames.length : 0;
+    const fps = (ms: number) => (ms > 0 && ms !== Infinity ? Math.round(1000 / ms) : 0);
+
+    const scene = SceneManager.currentScene;
+    const howls = (Howler as unknown as { _howls: Howl[] })._howls ?? [];
+
+    this._text.text = [
+      `FPS   ${fps(avg)} (min ${fps(max)} / max ${fps(min)})`,
+      `Frame ${avg.toFixed(1)} ms`,
+      `Draws ${this._lastDrawCalls}`,
+      `Nodes ${scene ? this.countNodes(scene) : 0}`,
+      `Tex   ${this.textureMB().toFixed(1)} MB`,
+      `Tweens ${gsap.globalTimeline.getChildren(true, true, false).filter(t => t.isActive()).length}`,
+      `Sounds ${howls.filter(h => h.playing()).length}/${howls.length}`,
+    ].join('\n');
+
+    this.drawGraph();
+  }
+
+  private drawGraph(): void {
+    const top = this._text.y + this._text.height + 6;
+    const frames = this._frameTimes;
+    const step = PANEL_WIDTH / config.debug.graphFrames;
+
+    this._bg.clear();
+    this._bg.roundRect(0, 0, PANEL_WIDTH, top + GRAPH_HEIGHT + 8, 6);
+    this._bg.fill({ color: 0x000000, alpha: 0.7 });
+
+    this._graph.clear();
+    // 60 FPS reference line
+    const target = top + GRAPH_HEIGHT - (16.7 / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+    this._graph.moveTo(0, target).lineTo(PANEL_WIDTH, target);
+    this._graph.stroke({ color: 0xffffff, alpha: 0.25, width: 1 });
+
+    frames.forEach((ms, i) => {
+      const h = Math.min(1, ms / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+      this._graph.rect(i * step, top + GRAPH_HEIGHT - h, Math.max(1, step - 0.5), h);
+    });
+    this._graph.fill({ color: 0x00ff00, alpha: 0.8 });
+  }
+
+  private countNodes(root: Container): number {
+    let count = 1;
+    for (const child of root.children) {
+      count += this.countNodes(child);
+    }
+    return count;
+  }
+
+  /** Rough GPU footprint of every texture uploaded to the renderer: 4 bytes per pixel. */
+  private textureMB(): number {
+    const system = this._app.renderer.texture as { managedTextures?: Readonly<TextureSource[]> };
+    let bytes = 0;
+    for (const source of system.managedTextures ?? []) {
+      bytes += source.pixelWidth * source.pixelHeight * 4;
+    }
+    return bytes / (1024 * 1024);
+  }
+
+  /** Wraps the renderer's draw entry point to count draw calls per frame. */
+  private countDrawCalls(): void {
+    const renderer = this._app.renderer;
+    const target = (renderer.type === RendererType.WEBGPU
+      ? (renderer as WebGPURenderer).encoder
+      : (renderer as WebGLRenderer).geometry) as unknown as { draw: DrawFn };
+
+    const original = target.draw;
+    target.draw = ((...args: never[]) => {
+      this._drawCalls++;
+      return original.apply(target, args);
+    }) as DrawFn;
+    this._restoreDraw = () => { target.draw = original; };
+  }
+
+  public override destroy(): void {
+    window.removeEventListener('keydown', this.onKeyDown);
+    this._app.ticker.remove(this.sample, this);
+    this._restoreDraw?.();
+    this._restoreDraw = null;
+    super.destroy({ children: true });
+  }
+}
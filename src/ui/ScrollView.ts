@@ -0,0 +1,195 @@
+import { Container, Graphics, Rectangle, type FederatedPointerEvent, type FederatedWheelEvent } from 'pixi.js';
+import { gsap } from 'gsap';
+
+export interface ScrollViewOptions {
+  width: number;
+  height: number;
+  /** Height of the scrollable content. Defaults to the measured height of `content`. */
+  contentHeight?: number;
+  /** Pointer travel (px) before a press becomes a drag. */
+  dragThreshold?: number;
+  /** How far (in seconds of release velocity) a fling keeps scrolling. */
+  inertia?: number;
+  onScroll?: (scrollY: number) => void;
+}
+
+/**
+ * A vertically scrolling, masked viewport. Scroll by dragging (with inertia after release)
+ * or with the mouse wheel. Its origin is the top-left corner; add children to `content`.
+ */
+export class ScrollView extends Container {
+  /** Scrolled content; (0, 0) is its top when scrolled to the top. */
+  public readonly content: Container;
+  private _mask: Graphics;
+  private _options: Required<Omit<ScrollViewOptions, 'contentHeight'>> & { contentHeight?: number };
+  private _scrollY = 0;
+  private _pressed = false;
+  private _dragging = false;
+  private _pressY = 0;
+  private _pressScrollY = 0;
+  private _lastMoveTime = 0;
+  private _lastMoveScrollY = 0;
+  /** Scroll speed in px/s, measured while dragging. */
+  private _velocity = 0;
+
+  constructor(options: ScrollViewOptions) {
+    super();
+
+    this._options = {
+      dragThreshold: 8,
+      inertia: 0.3,
+      onScroll: () => {},
+      ...options,
+    };
+
+    this.content = new Container();
+    this._mask = new Graphics();
+    this.addChild(this.content, this._mask);
+    this.content.mask = this._mask;
+
+    this.eventMode = 'static';
+    this.on('pointerdown', this.onPointerDown);
+    this.on('globalpointermove', this.onPointerMove);
+    this.on('pointerup', this.onPointerUp);
+    this.on('pointerupoutside', this.onPointerUp);
+    this.on('wheel', this.onWheel);
+
+    this.resize(options.width, options.height);
+  }
+
+  /** Current scroll offset from the top, in px. */
+  get scrollY(): number {
+    return this._scrollY;
+  }
+
+  set scrollY(value: number) {
+    const clamped = Math.min(this.maxScrollY, Math.max(0, value));
+    if (clamped === this._scrollY) return;
+    this._scrollY = clamped;
+    this.content.y = -clamped;
+    this._options.onScroll(clamped);
+  }
+
+  get maxScrollY(): number {
+    const contentHeight = this._options.contentHeight ?? this.content.getLocalBounds().maxY;
+    return Math.max(0, contentHeight - this._options.height);
+  }
+
+  /** Viewport height. */
+  get viewHeight(): number {
+    return this._options.height;
+  }
+
+  /**
+   * True once a press has moved far enough to scroll, until the pointer is released.
+   * Children can check it to ignore taps that ended a drag.
+   */
+  get isDragging(): boolean {
+    return this._dragging;
+  }
+
+  /** True while a ScrollView around `node` is being dragged, so a press on it is a scroll, not a tap. */
+  static isDraggingAround(node: Container): boolean {
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (parent instanceof ScrollView && parent.isDragging) return true;
+    }
+    return false;
+  }
+
+  /** Sets the content height explicitly (e.g. for virtualized content). Re-clamps the scroll offset. */
+  set contentHeight(height: number) {
+    this._options.contentHeight = height;
+    this.scrollY = this._scrollY;
+  }
+
+  resize(width: number, height: number): void {
+    this._options.width = width;
+    this._options.height = height;
+    this._mask.clear();
+    this._mask.rect(0, 0, width, height);
+    this._mask.fill({ color: 0xffffff });
+    this.hitArea = new Rectangle(0, 0, width, height);
+    this.scrollY = this._scrollY;
+  }
+
+  /**
+   * Scrolls to an offset.
+   * @param y - Offset from the top in px; clamped to the content
+   * @param animate - Ease there instead of jumping
+   */
+  scrollTo(y: number, animate = false): void {
+    gsap.killTweensOf(this);
+    if (animate) {
+      const target = Math.min(this.maxScrollY, Math.max(0, y));
+      gsap.to(this, { scrollY: target, duration: 0.3, ease: 'power2.out' });
+    } else {
+      this.scrollY = y;
+    }
+  }
+
+  /** Scrolls the least distance needed to show the span `top`..`bottom` of the content. */
+  scrollIntoView(top: number, bottom: number, animate = true): void {
+    const { height } = this._options;
+    if (top < this._scrollY) {
+      this.scrollTo(top, animate);
+    } else if (bottom > this._scrollY + height) {
+      this.scrollTo(bottom - height, animate);
+    }
+  }
+
+  private onPointerDown = (e: FederatedPointerEvent): void => {
+    gsap.killTweensOf(this);
+    this._pressed = true;
+    this._dragging = false;
+    this._pressY = e.global.y;
+    this._pressScrollY = this._scrollY;
+    this._lastMoveTime = performance.now();
+    this._lastMoveScrollY = this._scrollY;
+    this._velocity = 0;
+  };
+
+  private onPointerMove = (e: FederatedPointerEvent): void => {
+    if (!this._pressed) return;
+
+    const dy = e.global.y - this._pressY;
+    if (!this._dragging && Math.abs(dy) < this._options.dragThreshold) return;
+    this._dragging = true;
+    this.scrollY = this._pressScrollY - dy;
+
+    const now = performance.now();
+    const dt = (now - this._lastMoveTime) / 1000;
+    if (dt > 0) {
+      this._velocity = (this._scrollY - this._lastMoveScrollY) / dt;
+      this._lastMoveTime = now;
+      this._lastMoveScrollY = this._scrollY;
+    }
+  };
+
+  private onPointerUp = (): void => {
+    if (!this._pressed) return;
+    this._pressed = false;
+    if (!this._dragging) return;
+    this._dragging = false;
+
+    // A pause before release means no fling
+    const idle = performance.now() - this._lastMoveTime > 100;
+    if (!idle && this._velocity !== 0) {
+      const target = this._scrollY + this._velocity * this._options.inertia;
+      gsap.to(this, {
+        scrollY: Math.min(this.maxScrollY, Math.max(0, target)),
+        duration: Math.min(1.2, 0.4 + Math.abs(this._velocity) / 4000),
+        ease: 'power3.out',
+      });
+    }
+  };
+
+  private onWheel = (e: FederatedWheelEvent): void => {
+    if (this.maxScrollY === 0) return;
+    this.scrollTo(this._scrollY + e.deltaY);
+  };
+
+  destroy(): void {
+    gsap.killTweensOf(this);
+    super.destroy({ children: true });
+  }
+}
@@ -0,0 +1,158 @@
+import { Container, Graphics, type FederatedPointerEvent } from 'pixi.js';
+import type { Focusable } from '../FocusManager';
+
+export interface SliderOptions {
+  width?: number;
+  min?: number;
+  max?: number;
+  /** Values are snapped to multiples of the step from `min`. 0 disables snapping. */
+  step?: number;
+  value?: number;
+  trackColor?: number;
+  fillColor?: number;
+  knobColor?: number;
+  /** What the slider controls, for screen readers; the value is appended. */
+  accessibleLabel?: string;
+  /** Called whenever the user changes the snapped value (dragging or stepping with keys). */
+  onChange?: (value: number) => void;
+}
+
+const TRACK_HEIGHT = 6;
+const KNOB_RADIUS = 9;
+
+/** Keyboard step when the slider has no `step`, as a fraction of its range. */
+const FREE_STEP = 0.1;
+
+/**
+ * A horizontal value slider: press anywhere on the track to jump, drag to adjust.
+ * With focus, left/right step the value and activating steps it up, wrapping to the minimum.
+ * Its origin is the left end of the track, vertically centered.
+ */
+export class Slider extends Container implements Focusable {
+  private _graphics: Graphics;
+  private _focusRing: Graphics;
+  private _options: Required<SliderOptions>;
+  private _value: number;
+  private _dragging = false;
+
+  constructor(options: SliderOptions = {}) {
+    super();
+
+    this._options = {
+      width: 200,
+      min: 0,
+      max: 1,
+      step: 0,
+      value: 0,
+      trackColor: 0x444444,
+      fillColor: 0x00aa55,
+      knobColor: 0xffffff,
+      accessibleLabel: 'Slider',
+      onChange: () => {},
+      ...options,
+    };
+    this._value = this.snap(this._options.value);
+
+    const { width } = this._options;
+    this._graphics = new Graphics();
+    this._focusRing = new Graphics();
+    this._focusRing.roundRect(-KNOB_RADIUS - 4, -KNOB_RADIUS - 4, width + KNOB_RADIUS * 2 + 8, KNOB_RADIUS * 2 + 8, KNOB_RADIUS + 4);
+    this._focusRing.stroke({ color: 0xffcc00, width: 3 });
+    this._focusRing.visible = false;
+    this.addChild(this._focusRing, this._graphics);
+
+    this.eventMode = 'static';
+    this.cursor = 'pointer';
+    this.hitArea = { contains: (x: number, y: number) => x >= -8 && x <= width + 8 && y >= -12 && y <= 12 };
+    this.on('pointerdown', (e) => {
+      this._dragging = true;
+      this.setFromPointer(e);
+    });
+    this.on('globalpointermove', (e) => {
+      if (this._dragging) this.setFromPointer(e);
+    });
+    this.on('pointerup', () => { this._dragging = false; });
+    this.on('pointerupoutside', () => { this._dragging = false; });
+
+    this.draw();
+  }
+
+  get value(): number {
+    return this._value;
+  }
+
+  /** Sets the value (clamped and snapped) without calling `onChange`. */
+  set value(value: number) {
+    this._value = this.snap(value);
+    this.draw();
+  }
+
+  /** True while the knob is being dragged. */
+  get dragging(): boolean {
+    return this._dragging;
+  }
+
+  get accessibleLabel(): string {
+    return `${this._options.accessibleLabel}: ${this._value}`;
+  }
+
+  setFocused(focused: boolean): void {
+    this._focusRing.visible = focused;
+  }
+
+  /** Steps the value down (-1) or up (1) by one step and reports it. */
+  adjust(direction: -1 | 1): void {
+    const { min, max, step } = this._options;
+    this.change(this._value + direction * (step > 0 ? step : (max - min) * FREE_STEP));
+  }
+
+  /** Steps the value up, wrapping to the minimum past the maximum (for the accessibility mirror). */
+  activate(): void {
+    if (this._value >= this._options.max) {
+      this.change(this._options.min);
+    } else {
+      this.adjust(1);
+    }
+  }
+
+  private setFromPointer(e: FederatedPointerEvent): void {
+    const { width, min, max } = this._options;
+    const t = Math.min(1, Math.max(0, this.toLocal(e.global).x / width));
+    this.change(min + t * (max - min));
+  }
+
+  /** Snaps a new value and reports it if it differs from the current one. */
+  private change(value: number): void {
+    value = this.snap(value);
+    if (value === this._value) return;
+
+    this._value = value;
+    this.draw();
+    this._options.onChange(value);
+  }
+
+  private snap(value: number): number {
+    const { min, max, step } = this._options;
+    let snapped = Math.min(max, Math.max(min, value));
+    if (step > 0) {
+      snapped = min + Math.round((snapped - min) / step) * step;
+      // Trim float noise, e.g. 0.30000000000000004
+      snapped = Number(snapped.toFixed(10));
+    }
+    return snapped;
+  }
+
+  private draw(): void {
+    const { width, min, max, trackColor, fillColor, knobColor } = this._options;
+    const t = max > min ? (this._value - min) / (max - min) : 0;
+
+    const g = this._graphics;
+    g.clear();
+    g.roundRect(0, -TRACK_HEIGHT / 2, width, TRACK_HEIGHT, TRACK_HEIGHT / 2);
+    g.fill({ color: trackColor });
+    g.roundRect(0, -TRACK_HEIGHT / 2, width * t, TRACK_HEIGHT, TRACK_HEIGHT / 2);
+    g.fill({ color: fillColor });
+    g.circle(width * t, 0, KNOB_RADIUS);
+    g.fill({ color: knobColor });
+  }
+}
@@ -0,0 +1,45 @@
+import { Text } from 'pixi.js';
+import { gsap } from 'gsap';
+import { Panel } from './Panel';
+
+export type ToastKind = 'info' | 'warning' | 'error';
+
+const COLORS: Record<ToastKind, number> = {
+  info: 0x2a2a2a,
+  warning: 0xb07d00,
+  error: 0xa83232,
+};
+
+const MAX_TEXT_WIDTH = 420;
+const PADDING = 12;
+
+/** A short message on a rounded panel, tinted by kind. Its origin is the bottom center. Tap to dismiss. */
+export class Toast extends Panel {
+  public readonly message: string;
+  /** Full height including padding, for stacking. */
+  public readonly stackHeight: number;
+
+  constructor(message: string, kind: ToastKind, onTap: () => void) {
+    const text = new Text({
+      text: message,
+      style: { fontFamily: 'Arial', fontSize: 18, fill: '#ffffff', wordWrap: true, wordWrapWidth: MAX_TEXT_WIDTH },
+    });
+    const width = text.width + PADDING * 2;
+    const height = text.height + PADDING * 2;
+
+    super({ width, height, padding: PADDING, color: COLORS[kind], alpha: 0.92, borderRadius: 10 });
+    this.message = message;
+    this.stackHeight = height;
+    this.content.addChild(text);
+    this.pivot.set(width / 2, height);
+
+    this.eventMode = 'static';
+    this.cursor = 'pointer';
+    this.on('pointertap', onTap);
+  }
+
+  destroy(): void {
+    gsap.killTweensOf(this);
+    super.destroy({ children: true });
+  }
+}
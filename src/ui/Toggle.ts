@@ -0,0 +1,113 @@
+import { Container, Graphics } from 'pixi.js';
+import { gsap } from 'gsap';
+import type { Focusable } from '../FocusManager';
+import { ScrollView } from './ScrollView';
+
+export interface ToggleOptions {
+  value?: boolean;
+  width?: number;
+  height?: number;
+  onColor?: number;
+  offColor?: number;
+  knobColor?: number;
+  /** What the toggle controls, for screen readers; the state is appended. */
+  accessibleLabel?: string;
+  onChange?: (value: boolean) => void;
+}
+
+/** An on/off switch. Its origin is the left edge of the track, vertically centered. */
+export class Toggle extends Container implements Focusable {
+  private _track: Graphics;
+  private _knob: Graphics;
+  private _focusRing: Graphics;
+  private _options: Required<ToggleOptions>;
+  private _value: boolean;
+  private _pressed = false;
+
+  constructor(options: ToggleOptions = {}) {
+    super();
+
+    this._options = {
+      value: false,
+      width: 44,
+      height: 22,
+      onColor: 0x00aa55,
+      offColor: 0x444444,
+      knobColor: 0xffffff,
+      accessibleLabel: 'Toggle',
+      onChange: () => {},
+      ...options,
+    };
+    this._value = this._options.value;
+
+    const { width, height } = this._options;
+    this._track = new Graphics();
+    this._knob = new Graphics();
+    this._knob.circle(0, 0, height / 2 - 3);
+    this._knob.fill({ color: this._options.knobColor });
+    this._focusRing = new Graphics();
+    this._focusRing.roundRect(-4, -height / 2 - 4, width + 8, height + 8, height / 2 + 4);
+    this._focusRing.stroke({ color: 0xffcc00, width: 3 });
+    this._focusRing.visible = false;
+    this.addChild(this._focusRing, this._track, this._knob);
+
+    this.eventMode = 'static';
+    this.cursor = 'pointer';
+    // Flips on release over the toggle, like Button: sliding off or scrolling cancels it
+    this.on('pointerdown', () => { this._pressed = true; });
+    this.on('pointerout', () => { this._pressed = false; });
+    this.on('pointerupoutside', () => { this._pressed = false; });
+    this.on('pointerup', () => {
+      const pressed = this._pressed && !ScrollView.isDraggingAround(this);
+      this._pressed = false;
+      if (pressed) this.activate();
+    });
+
+    this.draw();
+  }
+
+  get value(): boolean {
+    return this._value;
+  }
+
+  /** Sets the value without calling `onChange`. */
+  set value(value: boolean) {
+    if (value === this._value) return;
+    this._value = value;
+    this.draw(true);
+  }
+
+  get accessibleLabel(): string {
+    return `${this._options.accessibleLabel}: ${this._value ? 'on' : 'off'}`;
+  }
+
+  setFocused(focused: boolean): void {
+    this._focusRing.visible = focused;
+  }
+
+  /** Flips the value and reports it. */
+  activate(): void {
+    this.value = !this._value;
+    this._options.onChange(this._value);
+  }
+
+  private draw(animate = false): void {
+    const { width, height, onColor, offColor } = this._options;
+    this._track.clear();
+    this._track.roundRect(0, -height / 2, width, height, height / 2);
+    this._track.fill({ color: this._value ? onColor : offColor });
+
+    const x = this._value ? width - height / 2 : height / 2;
+    gsap.killTweensOf(this._knob);
+    if (animate) {
+      gsap.to(this._knob, { x, duration: 0.15, ease: 'power2.out' });
+    } else {
+      this._knob.x = x;
+    }
+  }
+
+  destroy(): void {
+    gsap.killTweensOf(this._knob);
+    super.destroy({ children: true });
+  }
+}